@@ -0,0 +1,289 @@
+import { runParser, runParserAsync } from './parser.js';
+import { formatConstraint, parsePattern } from './pattern.js';
+import { resolveQuerySerializer } from './query.js';
+import {
+  ROUTE_METADATA,
+  type ExtractNames,
+  type ExtractPatterns,
+  type Meta,
+  type PatternSegment,
+  type QueryParams,
+  type RouteDefinition,
+  type RouteMatch,
+  type RouteRecord,
+  type RouteTree,
+  type TreeNode,
+} from './types.js';
+
+/** Router-specific fields by route name or pattern; a name's fields win over its pattern's */
+export type RouterEntries<T extends readonly RouteDefinition[], E> = Partial<Record<ExtractNames<T> | ExtractPatterns<T>, E>>;
+
+export interface AdapterOptions {
+  /**
+   * Called when a URL fails the route's param or query parsers. The loader or
+   * guard returns its result instead of throwing the `RouteValidationError`.
+   */
+  onInvalid?: (error: unknown) => unknown;
+}
+
+// ============================================
+// React Router
+// ============================================
+
+export interface ReactRouterLoaderArgs {
+  request: { url: string };
+  params: Record<string, string | undefined>;
+}
+
+export interface ReactRouterObject {
+  path?: string;
+  index?: boolean;
+  id?: string;
+  loader?: (args: ReactRouterLoaderArgs) => unknown;
+  children?: ReactRouterObject[];
+  [key: string]: unknown;
+}
+
+/** Fields of a React Router route object; `loader` also gets the parsed match */
+export interface ReactRouterEntry<T extends readonly RouteDefinition[]> {
+  loader?: (args: ReactRouterLoaderArgs, match: RouteMatch<T>) => unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Build React Router route objects (for `createBrowserRouter()`), nested the way
+ * the routes are. Every route gets a loader that runs its param and query parsers,
+ * then calls the entry's loader with the match, or returns the match.
+ */
+export function toReactRouterObjects<T extends readonly RouteDefinition[]>(
+  routes: RouteTree<T>,
+  entries: RouterEntries<T, ReactRouterEntry<T>> = {},
+  options: AdapterOptions = {}
+): ReactRouterObject[] {
+  const build = (node: RouterNode, nested: boolean): ReactRouterObject => {
+    const { route } = node;
+    const { loader, ...fields } = findEntry<ReactRouterEntry<T>>(entries, route);
+    const own: ReactRouterObject = {
+      ...fields,
+      id: route.name,
+      loader: (args) =>
+        validate(options, async () => {
+          const params = readRouterParams(route, args.params, () => '*');
+          const match = await parseMatchAsync(route, params, new URL(args.request.url).search);
+          return loader ? loader(args, match as RouteMatch<T>) : match;
+        }),
+    };
+    const path = formatPath(node.segments, nested, formatReactRouterSegment);
+    if (node.children.length === 0) return { path, ...own };
+    return { path, children: [{ index: true, ...own }, ...node.children.map((child) => build(child, true))] };
+  };
+
+  return collectRouterNodes(routes[ROUTE_METADATA].tree).map((node) => build(node, false));
+}
+
+function formatReactRouterSegment(seg: PatternSegment): string {
+  if (seg.type === 'static') return seg.name;
+  if (seg.type === 'splat') return '*';
+  return `:${seg.name}${seg.optional ? '?' : ''}`;
+}
+
+// ============================================
+// Vue Router
+// ============================================
+
+export interface VueRouteLocation {
+  fullPath: string;
+  params: Record<string, string | string[] | undefined>;
+}
+
+export interface VueRouteRecord {
+  path: string;
+  name?: string;
+  meta?: Meta;
+  /** Other paths the route is served under */
+  alias?: string[];
+  beforeEnter?: (to: VueRouteLocation, from: unknown) => unknown;
+  children?: VueRouteRecord[];
+  [key: string]: unknown;
+}
+
+/** Fields of a Vue Router route record; `beforeEnter` also gets the parsed match */
+export interface VueRouterEntry<T extends readonly RouteDefinition[]> {
+  beforeEnter?: (to: VueRouteLocation, from: unknown, match: RouteMatch<T>) => unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Build Vue Router route records (for `createRouter()`), nested the way the routes
+ * are. Every route gets a `beforeEnter` guard that runs its param and query parsers,
+ * then calls the entry's guard with the match. Route aliases become absolute `alias` paths.
+ */
+export function toVueRouterRecords<T extends readonly RouteDefinition[]>(
+  routes: RouteTree<T>,
+  entries: RouterEntries<T, VueRouterEntry<T>> = {},
+  options: AdapterOptions = {}
+): VueRouteRecord[] {
+  const build = (node: RouterNode, nested: boolean): VueRouteRecord => {
+    const { route } = node;
+    const { beforeEnter, ...fields } = findEntry<VueRouterEntry<T>>(entries, route);
+    const alias = route.aliases.map((path) => formatPath(parsePattern(path), false, formatVueRouterSegment));
+    const own: Omit<VueRouteRecord, 'path'> = {
+      ...fields,
+      name: route.name,
+      meta: route.meta ?? undefined,
+      ...(alias.length > 0 && { alias }),
+      beforeEnter: (to: VueRouteLocation, from: unknown) =>
+        validate(options, async () => {
+          const params = readRouterParams(route, to.params, vueSplatName);
+          const match = await parseMatchAsync(route, params, new URL(to.fullPath, 'http://localhost').search);
+          return beforeEnter?.(to, from, match as RouteMatch<T>);
+        }),
+    };
+    const path = formatPath(node.segments, nested, formatVueRouterSegment);
+    if (node.children.length === 0) return { path, ...own };
+    return { path, children: [{ path: '', ...own }, ...node.children.map((child) => build(child, true))] };
+  };
+
+  return collectRouterNodes(routes[ROUTE_METADATA].tree).map((node) => build(node, false));
+}
+
+function formatVueRouterSegment(seg: PatternSegment): string {
+  if (seg.type === 'static') return seg.name;
+  if (seg.type === 'splat') return `:${vueSplatName(seg.name)}(.*)+`;
+  return `:${seg.name}${formatConstraint(seg.constraint)}${seg.optional ? '?' : ''}`;
+}
+
+/** A bare `*` splat becomes Vue's conventional `pathMatch` param */
+function vueSplatName(name: string): string {
+  return name === '*' ? 'pathMatch' : name;
+}
+
+// ============================================
+// TanStack Router
+// ============================================
+
+export interface TanStackRouteConfig {
+  path: string;
+  params?: { parse: (raw: Record<string, string>) => Record<string, unknown> };
+  validateSearch?: (search: Record<string, unknown>) => QueryParams;
+  children?: TanStackRouteConfig[];
+  [key: string]: unknown;
+}
+
+/**
+ * Build TanStack-style route configs (`$param`, `{-$optional}` and `$` splat paths),
+ * nested the way the routes are. Param and query parsers become `params.parse` and
+ * `validateSearch`; both throw `RouteValidationError`s and run synchronously.
+ */
+export function toTanStackRouteConfigs<T extends readonly RouteDefinition[]>(
+  routes: RouteTree<T>,
+  entries: RouterEntries<T, Record<string, unknown>> = {}
+): TanStackRouteConfig[] {
+  const build = (node: RouterNode, nested: boolean): TanStackRouteConfig => {
+    const { route } = node;
+    const own: Omit<TanStackRouteConfig, 'path'> = { ...findEntry<Record<string, unknown>>(entries, route) };
+    const { paramParser, queryParser } = route;
+    if (paramParser) {
+      own.params = {
+        parse: (raw: Record<string, string>) => {
+          const params = readRouterParams(route, raw, () => '_splat');
+          return { ...raw, ...params, ...(runParser(paramParser, params) as Record<string, unknown>) };
+        },
+      };
+    }
+    if (queryParser) own.validateSearch = (search: Record<string, unknown>) => runParser(queryParser, search) as QueryParams;
+
+    const path = formatPath(node.segments, nested, formatTanStackSegment);
+    if (node.children.length === 0) return { path, ...own };
+    return { path, children: [{ path: '/', ...own }, ...node.children.map((child) => build(child, true))] };
+  };
+
+  return collectRouterNodes(routes[ROUTE_METADATA].tree).map((node) => build(node, false));
+}
+
+function formatTanStackSegment(seg: PatternSegment): string {
+  if (seg.type === 'static') return seg.name;
+  if (seg.type === 'splat') return '$';
+  return seg.optional ? `{-$${seg.name}}` : `$${seg.name}`;
+}
+
+// ============================================
+// Router Tree
+// ============================================
+
+/** A defined route with its path relative to the closest defined route above it */
+interface RouterNode {
+  route: RouteRecord;
+  segments: PatternSegment[];
+  children: RouterNode[];
+}
+
+/**
+ * Nest every route under the closest defined route above it in the tree. `/` stays
+ * a sibling of the other top-level routes rather than a layout around all of them.
+ */
+function collectRouterNodes(tree: TreeNode): RouterNode[] {
+  return walkTree(tree, 0, 0).flatMap((node) => (node.segments.length === 0 ? [{ ...node, children: [] }, ...node.children] : [node]));
+}
+
+/**
+ * Nodes that aren't routes fold into their children's paths. A route with optional
+ * params is only placed on the branch that takes them all; its path marks them optional.
+ */
+function walkTree(node: TreeNode, depth: number, parentDepth: number): RouterNode[] {
+  const { route } = node;
+  const isPlaced = route !== null && route.segments.length === depth;
+  const children = Object.values(node.children).flatMap((child) => walkTree(child, depth + 1, isPlaced ? depth : parentDepth));
+  if (!isPlaced) return children;
+  return [{ route, segments: route.segments.slice(parentDepth), children }];
+}
+
+function formatPath(segments: PatternSegment[], nested: boolean, format: (seg: PatternSegment) => string): string {
+  const path = segments.map(format).join('/');
+  return nested ? path : `/${path}`;
+}
+
+function findEntry<E>(entries: Partial<Record<string, E>>, route: RouteRecord): Partial<E> {
+  return { ...entries[route.pattern], ...(route.name === undefined ? undefined : entries[route.name]) };
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/** Read a route's params from a router's; splats arrive slash-joined or as arrays */
+function readRouterParams(
+  route: RouteRecord,
+  raw: Record<string, string | string[] | undefined>,
+  splatKey: (name: string) => string
+): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const seg of route.segments) {
+    if (seg.type === 'static') continue;
+    const value = raw[seg.type === 'splat' ? splatKey(seg.name) : seg.name];
+    if (value === undefined || value === '') continue;
+    params[seg.name] = seg.type === 'splat' && typeof value === 'string' ? value.split('/').filter(Boolean) : value;
+  }
+  return params;
+}
+
+async function parseMatchAsync(route: RouteRecord, params: Record<string, unknown>, search: string) {
+  const query = resolveQuerySerializer(route.options.querySerializer).parse(search);
+  return {
+    name: route.name,
+    pattern: route.pattern,
+    params: route.paramParser ? { ...params, ...((await runParserAsync(route.paramParser, params)) as object) } : params,
+    query: route.queryParser ? ((await runParserAsync(route.queryParser, query)) as QueryParams) : query,
+    hash: undefined,
+    meta: route.meta ?? undefined,
+  };
+}
+
+async function validate(options: AdapterOptions, run: () => Promise<unknown>): Promise<unknown> {
+  try {
+    return await run();
+  } catch (error) {
+    if (options.onInvalid) return options.onInvalid(error);
+    throw error;
+  }
+}
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+import { existsSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { generateRoutes, watchRoutes, type GenerateOptions, type GenerateResult, type RouteConvention } from './generate.js';
+
+const USAGE = `Usage: routish generate [dir] [options]
+
+Scan a pages directory and write a module that calls createRoutes().
+
+Arguments:
+  dir                      Directory to scan (default: the first of app, src/app, pages, src/pages, src/routes)
+
+Options:
+  -o, --out <file>         Module to write (default: routes.generated.ts)
+  --overrides <file>       Names, params, query and meta by pattern (default: routes.overrides.ts next to --out)
+  --convention <name>      next-app, next-pages or sveltekit (default: from the directory name)
+  -w, --watch              Regenerate when files change
+  -h, --help               Show this help
+`;
+
+const DEFAULT_DIRS = ['app', 'src/app', 'pages', 'src/pages', 'src/routes'];
+const CONVENTIONS: RouteConvention[] = ['next-app', 'next-pages', 'sveltekit'];
+
+function main(argv: string[]): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o', default: 'routes.generated.ts' },
+      overrides: { type: 'string' },
+      convention: { type: 'string' },
+      watch: { type: 'boolean', short: 'w', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const [command, dirArg] = positionals;
+
+  if (values.help || command !== 'generate') {
+    (values.help ? console.log : console.error)(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const dir = dirArg ?? DEFAULT_DIRS.find((candidate) => existsSync(candidate));
+  if (!dir) {
+    console.error(`No pages directory found. Pass one: routish generate <dir>`);
+    return 1;
+  }
+  const convention = values.convention as RouteConvention | undefined;
+  if (convention !== undefined && !CONVENTIONS.includes(convention)) {
+    console.error(`Unknown convention "${convention}". Use one of: ${CONVENTIONS.join(', ')}`);
+    return 1;
+  }
+
+  const options: GenerateOptions = { dir, out: values.out, overrides: values.overrides, convention };
+  const report = (result: GenerateResult) => {
+    if (result.written) console.log(`[routish] Wrote ${result.patterns.length} routes to ${options.out}`);
+  };
+
+  if (values.watch) {
+    watchRoutes(options, report, (error) => console.error(`[routish] ${error instanceof Error ? error.message : error}`));
+    console.log(`[routish] Watching ${dir}`);
+    return 0;
+  }
+  report(generateRoutes(options));
+  return 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  console.error(`[routish] ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,36 @@
+/**
+ * Characters allowed unescaped in a path segment (RFC 3986 pchar) that
+ * encodeURIComponent escapes anyway: ":", "@", "$", "&", "+", ",", ";", "="
+ */
+const PCHAR_ESCAPES = /%(3A|40|24|26|2B|2C|3B|3D)/gi;
+
+/**
+ * Encode a value for use as a single path segment.
+ * "/", "?", "#", "%", spaces and unicode are escaped; other characters
+ * that are valid inside a segment are kept readable.
+ */
+export function encode(value: string): string {
+  return encodeURIComponent(value).replace(PCHAR_ESCAPES, (escape) => decodeURIComponent(escape));
+}
+
+/**
+ * Decode a path segment, e.g. one read from `location.pathname`.
+ * Malformed escape sequences are returned unchanged.
+ */
+export function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/** Characters allowed unescaped in a fragment besides the pchar set: "/" and "?" */
+const FRAGMENT_ESCAPES = /%(3A|40|24|26|2B|2C|3B|3D|2F|3F)/gi;
+
+/**
+ * Encode a hash fragment (without the leading "#").
+ */
+export function encodeHash(value: string): string {
+  return encodeURIComponent(value).replace(FRAGMENT_ESCAPES, (escape) => decodeURIComponent(escape));
+}
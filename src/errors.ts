@@ -0,0 +1,138 @@
+import type { StandardSchemaIssue } from './types.js';
+
+/** Base class of every error thrown by routish */
+export class RoutishError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoutishError';
+  }
+}
+
+/** Kinds of problems found in route definitions */
+export type DefinitionIssueCode =
+  | 'duplicate-name'
+  | 'duplicate-pattern'
+  | 'conflicting-param-name'
+  | 'conflicting-parser'
+  | 'conflicting-constraint'
+  | 'conflicting-localized-path'
+  | 'conflicting-alias'
+  | 'invalid-redirect'
+  | 'invalid-meta'
+  | 'invalid-segment';
+
+export interface DefinitionIssue {
+  code: DefinitionIssueCode;
+  message: string;
+  /** Patterns of the offending definitions */
+  patterns: string[];
+}
+
+/**
+ * Thrown when route definitions are invalid or, with `validate: 'strict'`,
+ * ambiguous. Every problem found is listed in `issues`.
+ */
+export class RouteDefinitionError extends RoutishError {
+  readonly issues: DefinitionIssue[];
+
+  constructor(issues: DefinitionIssue[]) {
+    const details = issues.map((issue) => `  - ${issue.message}`).join('\n');
+    super(issues.length === 1 ? issues[0]!.message : `Invalid route definitions:\n${details}`);
+    this.name = 'RouteDefinitionError';
+    this.issues = issues;
+  }
+}
+
+/** Thrown when a Standard Schema parser rejects a value; `issues` are the library's own */
+export class SchemaValidationError extends RoutishError {
+  readonly issues: readonly StandardSchemaIssue[];
+
+  constructor(issues: readonly StandardSchemaIssue[]) {
+    super(`Validation failed: ${issues.map(formatIssue).join('; ')}`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+function formatIssue(issue: StandardSchemaIssue): string {
+  const path = issue.path?.map((key) => String(typeof key === 'object' ? key.key : key)).join('.');
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+/** Where a rejected value came from */
+export type ValidationKind = 'param' | 'query' | 'hash';
+
+/**
+ * Thrown when a param, query or hash value is rejected by its parser.
+ * `issues` holds the validator's issues, or the thrown error's message for
+ * parsers that aren't Standard Schemas; the original error is `cause`.
+ */
+export class RouteValidationError extends RoutishError {
+  readonly pattern: string;
+  readonly kind: ValidationKind;
+  /** Param or query key; undefined for the hash */
+  readonly key: string | undefined;
+  readonly issues: readonly StandardSchemaIssue[];
+  readonly cause: unknown;
+
+  constructor(pattern: string, kind: ValidationKind, key: string | undefined, cause: unknown) {
+    const issues =
+      cause instanceof SchemaValidationError ? cause.issues : [{ message: cause instanceof Error ? cause.message : String(cause) }];
+    const subject = key === undefined ? kind : `${kind} "${key}"`;
+    super(`Invalid ${subject} for "${pattern}": ${issues.map(formatIssue).join('; ')}`);
+    this.name = 'RouteValidationError';
+    this.pattern = pattern;
+    this.kind = kind;
+    this.key = key;
+    this.issues = issues;
+    this.cause = cause;
+  }
+}
+
+/** Thrown by getRouteByName() for a name that no route has */
+export class RouteNotFoundError extends RoutishError {
+  readonly routeName: string;
+
+  constructor(routeName: string) {
+    super(`Route "${routeName}" not found`);
+    this.name = 'RouteNotFoundError';
+    this.routeName = routeName;
+  }
+}
+
+/** Thrown when building a URL for a path that is only a prefix of defined routes */
+export class UndefinedRouteError extends RoutishError {
+  readonly pattern: string;
+
+  constructor(pattern: string) {
+    super(
+      pattern === '/'
+        ? '"/" is not a defined route. Define it explicitly: createRoutes([\'/\', ...])'
+        : `"${pattern}" is not a defined route. Did you forget to add it to createRoutes()?`
+    );
+    this.name = 'UndefinedRouteError';
+    this.pattern = pattern;
+  }
+}
+
+/**
+ * Thrown when a route is called with values it can't take or without a required param,
+ * and when a URL can't be built from the arguments or options given
+ */
+export class RouteArgumentError extends RoutishError {
+  readonly pattern: string;
+
+  constructor(pattern: string, message: string) {
+    super(message);
+    this.name = 'RouteArgumentError';
+    this.pattern = pattern;
+  }
+}
+
+/** Thrown by synchronous APIs when a parser validates asynchronously */
+export class AsyncParserError extends RoutishError {
+  constructor() {
+    super('Parser validates asynchronously. Use toStringAsync() or resolveRoute() instead');
+    this.name = 'AsyncParserError';
+  }
+}
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { createRoutes, RouteDefinitionError } from './index.js';
+import { detectConvention, generateRoutes, scanRoutes } from './generate.js';
+
+describe('generate', () => {
+  let root: string;
+
+  const touch = (...files: string[]) => {
+    for (const file of files) {
+      mkdirSync(dirname(join(root, file)), { recursive: true });
+      writeFileSync(join(root, file), '');
+    }
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'routish-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('scans the Next.js app router', () => {
+    touch(
+      'app/page.tsx',
+      'app/layout.tsx',
+      'app/(marketing)/about/page.tsx',
+      'app/blog/[slug]/page.tsx',
+      'app/docs/[[...path]]/page.mdx',
+      'app/shop/[...rest]/page.tsx',
+      'app/@modal/login/page.tsx',
+      'app/_components/page.tsx',
+      'app/api/users/route.ts'
+    );
+
+    const patterns = scanRoutes(join(root, 'app'));
+
+    expect(patterns).toEqual(['/', '/about', '/api/users', '/blog/:slug', '/docs', '/docs/:path*', '/login', '/shop/:rest*']);
+    expect(() => createRoutes(patterns)).not.toThrow();
+  });
+
+  it('scans the Next.js pages router', () => {
+    touch('pages/index.tsx', 'pages/_app.tsx', 'pages/users/[userId].tsx', 'pages/users/index.ts', 'pages/types.d.ts', 'pages/logo.svg');
+
+    expect(scanRoutes(join(root, 'pages'))).toEqual(['/', '/users', '/users/:userId']);
+  });
+
+  it('scans SvelteKit routes', () => {
+    touch(
+      'src/routes/+page.svelte',
+      'src/routes/+layout.svelte',
+      'src/routes/[[lang]]/about/+page.svelte',
+      'src/routes/(app)/items/[id=integer]/+page.ts',
+      'src/routes/files/[...path]/+server.ts'
+    );
+
+    expect(scanRoutes(join(root, 'src/routes'))).toEqual(['/', '/:lang?/about', '/files/:path*', '/items/:id']);
+  });
+
+  it('detects the convention from the directory name', () => {
+    expect(detectConvention('src/app')).toBe('next-app');
+    expect(detectConvention('pages')).toBe('next-pages');
+    expect(detectConvention('src/routes')).toBe('sveltekit');
+    expect(() => detectConvention('views')).toThrow('next-app, next-pages, sveltekit');
+  });
+
+  it('rejects segments mixing text and params', () => {
+    touch('src/routes/[a]-[b]/+page.svelte');
+
+    expect(() => scanRoutes(join(root, 'src/routes'))).toThrow(RouteDefinitionError);
+  });
+
+  it('writes the module and keeps the overrides file', () => {
+    touch('app/page.tsx', 'app/users/[userId]/page.tsx');
+    const options = { dir: join(root, 'app'), out: join(root, 'src/routes.ts') };
+
+    expect(generateRoutes(options)).toEqual({ patterns: ['/', '/users/:userId'], written: true });
+    const source = readFileSync(options.out, 'utf8');
+    expect(source).toContain("import overrides from './routes.overrides.js';");
+    expect(source).toContain("  route('/users/:userId'),");
+
+    writeFileSync(join(root, 'src/routes.overrides.ts'), 'export default {} as const;\n');
+    expect(generateRoutes(options).written).toBe(false);
+    expect(readFileSync(join(root, 'src/routes.overrides.ts'), 'utf8')).toBe('export default {} as const;\n');
+  });
+});
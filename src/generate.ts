@@ -0,0 +1,221 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, watch, writeFileSync } from 'node:fs';
+import { basename, dirname, join, relative } from 'node:path';
+import { RouteDefinitionError } from './errors.js';
+
+/** File-based routing conventions that can be scanned */
+export type RouteConvention = 'next-app' | 'next-pages' | 'sveltekit';
+
+export interface GenerateOptions {
+  /** Directory to scan, e.g. `app`, `pages` or `src/routes` */
+  dir: string;
+  /** Module to write */
+  out: string;
+  /** User-owned module with names, params, query and meta keyed by pattern (default: `routes.overrides.ts` next to `out`) */
+  overrides?: string;
+  /** Detected from the directory name when omitted */
+  convention?: RouteConvention;
+}
+
+export interface GenerateResult {
+  patterns: string[];
+  /** False when the module was already up to date */
+  written: boolean;
+}
+
+// ============================================
+// Scanning
+// ============================================
+
+const SCRIPT_EXTENSIONS = /\.(jsx?|tsx?|mdx?)$/;
+
+/** Files that make their directory a route, per convention */
+const ROUTE_FILES: Record<Exclude<RouteConvention, 'next-pages'>, RegExp> = {
+  'next-app': /^(page|route)\.(jsx?|tsx?|mdx?)$/,
+  sveltekit: /^\+(page(\.server)?\.(js|ts)|page\.svelte|server\.(js|ts))$/,
+};
+
+/** Pick the convention from the scanned directory's name */
+export function detectConvention(dir: string): RouteConvention {
+  switch (basename(dir)) {
+    case 'app':
+      return 'next-app';
+    case 'pages':
+      return 'next-pages';
+    case 'routes':
+      return 'sveltekit';
+  }
+  throw new Error(`Can't detect the routing convention of "${dir}". Pass one of: next-app, next-pages, sveltekit`);
+}
+
+/**
+ * Find the route patterns of a pages directory, sorted. `[id]` becomes `:id`,
+ * `[[id]]` becomes `:id?`, `[...slug]` becomes `:slug*` and `[[...slug]]`
+ * adds both the parent path and `:slug*`. `(group)` and `@slot` folders don't
+ * add a segment; Next.js `_private` folders and files are skipped.
+ */
+export function scanRoutes(dir: string, convention: RouteConvention = detectConvention(dir)): string[] {
+  const patterns = new Set<string>();
+  collectRoutes(dir, [], convention, patterns);
+  return [...patterns].sort();
+}
+
+function collectRoutes(dir: string, parents: string[], convention: RouteConvention, patterns: Set<string>): void {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || (convention !== 'sveltekit' && entry.name.startsWith('_'))) continue;
+    const path = join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      collectRoutes(path, [...parents, entry.name], convention, patterns);
+      continue;
+    }
+    if (convention === 'next-pages') {
+      if (!SCRIPT_EXTENSIONS.test(entry.name) || entry.name.endsWith('.d.ts')) continue;
+      const name = entry.name.replace(SCRIPT_EXTENSIONS, '');
+      addPatterns(name === 'index' ? parents : [...parents, name], path, patterns);
+    } else if (ROUTE_FILES[convention].test(entry.name)) {
+      addPatterns(parents, path, patterns);
+    }
+  }
+}
+
+function addPatterns(names: string[], file: string, patterns: Set<string>): void {
+  const segments: string[] = [];
+  for (const name of names) {
+    // Route groups and parallel route slots don't appear in the URL
+    if ((name.startsWith('(') && name.endsWith(')')) || name.startsWith('@')) continue;
+
+    const optionalSplat = /^\[\[\.\.\.([^\]]+)\]\]$/.exec(name);
+    if (optionalSplat) {
+      patterns.add(toPattern(segments));
+      segments.push(`:${paramName(optionalSplat[1]!)}*`);
+      continue;
+    }
+    segments.push(toSegment(name, file));
+  }
+  patterns.add(toPattern(segments));
+}
+
+function toSegment(name: string, file: string): string {
+  if (!name.includes('[')) return name;
+
+  const splat = /^\[\.\.\.([^\]]+)\]$/.exec(name);
+  if (splat) return `:${paramName(splat[1]!)}*`;
+  const optional = /^\[\[([^\]]+)\]\]$/.exec(name);
+  if (optional) return `:${paramName(optional[1]!)}?`;
+  const param = /^\[([^\]]+)\]$/.exec(name);
+  if (param) return `:${paramName(param[1]!)}`;
+
+  throw new RouteDefinitionError([
+    {
+      code: 'invalid-segment',
+      message: `Unsupported segment "${name}" in "${file}": a segment must be static or a single param`,
+      patterns: [file],
+    },
+  ]);
+}
+
+/** Drop SvelteKit param matchers: `[id=integer]` names the param `id` */
+function paramName(name: string): string {
+  return name.split('=')[0]!;
+}
+
+function toPattern(segments: string[]): string {
+  return '/' + segments.join('/');
+}
+
+// ============================================
+// Module Output
+// ============================================
+
+/** Source of the generated module; `overridesImport` is the import specifier of the overrides module */
+export function renderRoutesModule(patterns: string[], overridesImport: string): string {
+  const routes = patterns.map((pattern) => `  route(${quote(pattern)}),`).join('\n');
+  return `// Generated by \`routish generate\`. Do not edit: changes are overwritten.
+// Add names, params, query and meta in ${overridesImport}.
+import { createRoutes } from 'routish';
+import overrides from ${quote(overridesImport)};
+
+type Overrides = typeof overrides;
+
+function route<P extends string>(path: P): { path: P } & (P extends keyof Overrides ? Overrides[P] : {}) {
+  return { ...(overrides as Record<string, object>)[path], path } as never;
+}
+
+export const routes = createRoutes([
+${routes}
+]);
+`;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/['\\]/g, '\\$&')}'`;
+}
+
+/** Source of a new overrides module */
+export function renderOverridesModule(): string {
+  return `// Names, params, query and meta of the generated routes, keyed by pattern.
+// \`routish generate\` creates this file once and never overwrites it.
+export default {
+  // '/users/:userId': { name: 'user', params: { userId: Number } },
+} as const;
+`;
+}
+
+/**
+ * Scan `dir` and write the routes module. The overrides module is created if
+ * missing and left alone otherwise; the routes module is only rewritten when
+ * its content changes.
+ */
+export function generateRoutes(options: GenerateOptions): GenerateResult {
+  const patterns = scanRoutes(options.dir, options.convention);
+  const overrides = options.overrides ?? join(dirname(options.out), 'routes.overrides.ts');
+
+  if (!existsSync(overrides)) {
+    mkdirSync(dirname(overrides), { recursive: true });
+    writeFileSync(overrides, renderOverridesModule());
+  }
+
+  const source = renderRoutesModule(patterns, importSpecifier(options.out, overrides));
+  if (existsSync(options.out) && readFileSync(options.out, 'utf8') === source) {
+    return { patterns, written: false };
+  }
+  mkdirSync(dirname(options.out), { recursive: true });
+  writeFileSync(options.out, source);
+  return { patterns, written: true };
+}
+
+/** Relative ESM import of `target` from `from`, with a `.js` extension */
+function importSpecifier(from: string, target: string): string {
+  const path = relative(dirname(from), target).split('\\').join('/').replace(/\.tsx?$/, '.js');
+  return path.startsWith('.') ? path : `./${path}`;
+}
+
+/**
+ * Regenerate whenever files under `dir` change. Calls `onGenerate` after each
+ * run and `onError` when scanning fails; returns a function that stops watching.
+ */
+export function watchRoutes(
+  options: GenerateOptions,
+  onGenerate: (result: GenerateResult) => void,
+  onError: (error: unknown) => void
+): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const run = () => {
+    try {
+      onGenerate(generateRoutes(options));
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  run();
+  // Editors save in bursts; regenerate once they settle
+  const watcher = watch(options.dir, { recursive: true }, () => {
+    clearTimeout(timer);
+    timer = setTimeout(run, 50);
+  });
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
@@ -0,0 +1,95 @@
+import { bench, describe } from 'vitest';
+import { createRoutes, getRouteByName, matchRoute } from './index.js';
+
+const routes = createRoutes([
+  '/',
+  '/about',
+  { path: '/settings/account/notifications', name: 'notifications' },
+  { path: '/users/:userId', name: 'user' },
+  { path: '/users/:userId/posts/:postId', name: 'post' },
+  { path: '/docs/:version?/guides/:slug', name: 'guide' },
+]);
+
+const ids = Array.from({ length: 1000 }, (_, i) => String(i));
+
+/** Baseline: a pattern filled in by hand, as links are often built without a route builder */
+function fillPattern(pattern: string, params: Record<string, string> = {}): string {
+  return pattern.replace(/\/:(\w+)\??/g, (_, name: string) => (params[name] === undefined ? '' : '/' + encodeURIComponent(params[name])));
+}
+
+/**
+ * Baseline: URL rendering as routish did it before paths were precompiled,
+ * splitting the pattern and joining its segments on every call
+ */
+function joinSegments(pattern: string, params: Record<string, string>): string {
+  const parts = pattern.split('/').filter(Boolean).flatMap((part) => {
+    if (!part.startsWith(':')) return [part];
+    const value = params[part.slice(1).replace(/\?$/, '')];
+    return value === undefined ? [] : [encodeURIComponent(value)];
+  });
+  return parts.length === 0 ? '/' : '/' + parts.join('/');
+}
+
+describe('static routes', () => {
+  bench('routes.settings.account.notifications.toString()', () => {
+    routes.settings.account.notifications.toString();
+  });
+
+  bench('routes.about.toString()', () => {
+    routes.about.toString();
+  });
+
+  bench('uncached: getRouteByName(routes, "notifications").toString()', () => {
+    getRouteByName(routes, 'notifications').toString();
+  });
+
+  bench('baseline: fillPattern("/settings/account/notifications")', () => {
+    fillPattern('/settings/account/notifications');
+  });
+});
+
+describe('param routes', () => {
+  bench('routes.users(id).posts(id).toString()', () => {
+    routes.users('42').posts('7').toString();
+  });
+
+  bench('getRouteByName(routes, name, params).toString()', () => {
+    getRouteByName(routes, 'post', { userId: '42', postId: '7' }).toString();
+  });
+
+  bench('routes.docs(version).guides(slug).toString()', () => {
+    routes.docs('v2').guides('intro').toString();
+  });
+
+  bench('baseline: fillPattern("/users/:userId/posts/:postId", params)', () => {
+    fillPattern('/users/:userId/posts/:postId', { userId: '42', postId: '7' });
+  });
+
+  bench('previous: joinSegments("/users/:userId/posts/:postId", params)', () => {
+    joinSegments('/users/:userId/posts/:postId', { userId: '42', postId: '7' });
+  });
+});
+
+describe('list of 1000 links', () => {
+  bench('routes.users(id).toString()', () => {
+    for (const id of ids) routes.users(id).toString();
+  });
+
+  bench('getRouteByName(routes, "user", { userId }).toString()', () => {
+    for (const id of ids) getRouteByName(routes, 'user', { userId: id }).toString();
+  });
+
+  bench('baseline: fillPattern("/users/:userId", { userId })', () => {
+    for (const id of ids) fillPattern('/users/:userId', { userId: id });
+  });
+
+  bench('previous: joinSegments("/users/:userId", { userId })', () => {
+    for (const id of ids) joinSegments('/users/:userId', { userId: id });
+  });
+});
+
+describe('matching', () => {
+  bench('matchRoute(routes, url)', () => {
+    matchRoute(routes, '/users/42/posts/7');
+  });
+});
@@ -1,5 +1,40 @@
-import { describe, it, expect } from 'vitest';
-import { createRoutes, getRouteByName, getAllRoutes } from './index.js';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createRoutes,
+  mountRoutes,
+  mergeRoutes,
+  withLocale,
+  getRouteByName,
+  getAllRoutes,
+  matchRoute,
+  matchRouteAsync,
+  resolveRedirect,
+  isActive,
+  isAncestorOf,
+  generatePaths,
+  renderSitemap,
+  createHandlerMap,
+  toExpressHandler,
+  toFetchHandler,
+  toNodeHandler,
+  toReactRouterObjects,
+  toTanStackRouteConfigs,
+  toVueRouterRecords,
+  encode,
+  decode,
+  createQuerySerializer,
+  resolveRoute,
+  safeGetRouteByName,
+  AsyncParserError,
+  RoutishError,
+  RouteArgumentError,
+  RouteDefinitionError,
+  RouteNotFoundError,
+  RouteValidationError,
+  SchemaValidationError,
+  UndefinedRouteError,
+} from './index.js';
+import type { StandardSchemaV1 } from './index.js';
 
 describe('createRoutes', () => {
   describe('$index (root route)', () => {
@@ -13,12 +48,14 @@ describe('createRoutes', () => {
       const routes = createRoutes(['/', '/about']);
 
       expect(() => routes.toString()).toThrow('Cannot call toString() on routes directly');
+      expect(() => routes.toString()).toThrow(RouteArgumentError);
     });
 
     it('throws when calling toPattern() on routes directly', () => {
       const routes = createRoutes(['/', '/about']);
 
       expect(() => routes.toPattern()).toThrow('Cannot call toPattern() on routes directly');
+      expect(() => routes.toPattern()).toThrow(RouteArgumentError);
     });
 
     it('handles query parameters on root route', () => {
@@ -251,6 +288,1547 @@ describe('getAllRoutes', () => {
   });
 });
 
+describe('optional params', () => {
+  it('skips or takes an optional param in the middle of a path', () => {
+    const routes = createRoutes(['/docs/:version?/intro']);
+
+    expect(routes.docs.intro.toString()).toBe('/docs/intro');
+    expect(routes.docs('v2').intro.toString()).toBe('/docs/v2/intro');
+  });
+
+  it('handles a trailing optional param', () => {
+    const routes = createRoutes(['/users/:userId?']);
+
+    expect(routes.users.toString()).toBe('/users');
+    expect(routes.users({ page: 2 }).toString()).toBe('/users?page=2');
+    expect(routes.users('abc').toString()).toBe('/users/abc');
+  });
+
+  it('preserves the optional marker in toPattern()', () => {
+    const routes = createRoutes(['/docs/:version?/intro']);
+
+    expect(routes.docs.intro.toPattern()).toBe('/docs/:version?/intro');
+    expect(routes.docs('v2').intro.toPattern()).toBe('/docs/:version?/intro');
+  });
+
+  it('accepts optional params in getRouteByName', () => {
+    const routes = createRoutes([{ path: '/docs/:version?/intro', name: 'intro' }]);
+
+    expect(getRouteByName(routes, 'intro').toString()).toBe('/docs/intro');
+    expect(getRouteByName(routes, 'intro', {}).toString()).toBe('/docs/intro');
+    expect(getRouteByName(routes, 'intro', { version: 'v2' }).toString()).toBe('/docs/v2/intro');
+  });
+
+  it('still requires non-optional params in getRouteByName', () => {
+    const routes = createRoutes([{ path: '/orgs/:orgId/docs/:version?', name: 'docs' }]);
+
+    expect(getRouteByName(routes, 'docs', { orgId: 'acme' }).toString()).toBe('/orgs/acme/docs');
+    // @ts-expect-error - orgId is required
+    expect(() => getRouteByName(routes, 'docs', {})).toThrow('Missing value for param "orgId"');
+  });
+
+  it('runs param parsers on optional params', () => {
+    const routes = createRoutes([
+      { path: '/docs/:version?/intro' as const, params: { version: (v: unknown) => `v${v}` } },
+    ]);
+
+    expect(routes.docs(2).intro.toString()).toBe('/docs/v2/intro');
+  });
+
+  it('matches with and without the optional param', () => {
+    const routes = createRoutes(['/docs/:version?/intro']);
+
+    expect(matchRoute(routes, '/docs/intro')?.params).toEqual({});
+    expect(matchRoute(routes, '/docs/v2/intro')?.params).toEqual({ version: 'v2' });
+  });
+});
+
+describe('splat params', () => {
+  it('accepts an array or a slash-joined string for a bare splat', () => {
+    const routes = createRoutes(['/files/*']);
+
+    expect(routes.files(['docs', 'guide.md']).toString()).toBe('/files/docs/guide.md');
+    expect(routes.files('docs/guide.md').toString()).toBe('/files/docs/guide.md');
+  });
+
+  it('encodes each piece while preserving the separating slashes', () => {
+    const routes = createRoutes(['/wiki/:path*']);
+
+    expect(routes.wiki(['a b', 'c/d']).toString()).toBe('/wiki/a%20b/c%2Fd');
+  });
+
+  it('supports query params and toPattern()', () => {
+    const routes = createRoutes(['/wiki/:path*']);
+
+    expect(routes.wiki('a/b', { rev: 2 }).toString()).toBe('/wiki/a/b?rev=2');
+    expect(routes.wiki('a/b').toPattern()).toBe('/wiki/:path*');
+  });
+
+  it('prefers a param child for scalar values', () => {
+    const routes = createRoutes(['/files/:fileId', '/files/*']);
+
+    expect(routes.files('abc').toPattern()).toBe('/files/:fileId');
+    expect(routes.files(['a', 'b']).toPattern()).toBe('/files/*');
+  });
+
+  it('builds named splat routes', () => {
+    const routes = createRoutes([{ path: '/wiki/:path*', name: 'wiki' }]);
+
+    expect(getRouteByName(routes, 'wiki', { path: ['a', 'b'] }).toString()).toBe('/wiki/a/b');
+    expect(getRouteByName(routes, 'wiki', { path: 'a/b' }).toString()).toBe('/wiki/a/b');
+  });
+
+  it('requires a splat value', () => {
+    const routes = createRoutes(['/files/*', { path: '/wiki/:path*', name: 'wiki' }]);
+
+    expect(() => routes.files([])).toThrow(RouteArgumentError);
+    expect(() => routes.files('')).toThrow('Missing value for param "*" in "/files/*"');
+    expect(() => getRouteByName(routes, 'wiki', { path: [] })).toThrow('Missing value for param "path" in "/wiki/:path*"');
+    expect(() => getRouteByName(routes, 'wiki', {} as { path: string })).toThrow('Missing value for param "path" in "/wiki/:path*"');
+  });
+
+  it('captures the remaining path when matching', () => {
+    const routes = createRoutes(['/files/*', '/wiki/:path*', '/wiki/home']);
+
+    expect(matchRoute(routes, '/files/a/b%20c')?.params).toEqual({ '*': ['a', 'b c'] });
+    expect(matchRoute(routes, '/wiki/a/b')?.params).toEqual({ path: ['a', 'b'] });
+    expect(matchRoute(routes, '/wiki/home')?.pattern).toBe('/wiki/home');
+    expect(matchRoute(routes, '/files')).toBeNull();
+  });
+
+  it('rejects splats that are not the last segment', () => {
+    expect(() => createRoutes(['/files/*/edit'])).toThrow('must be the last segment');
+  });
+});
+
+describe('encoding', () => {
+  it('encodes param values as path segments', () => {
+    const routes = createRoutes(['/users/:userId']);
+
+    expect(routes.users('a/b c').toString()).toBe('/users/a%2Fb%20c');
+    expect(routes.users('?#%').toString()).toBe('/users/%3F%23%25');
+    expect(routes.users('café').toString()).toBe('/users/caf%C3%A9');
+  });
+
+  it('keeps characters that are valid inside a segment', () => {
+    expect(encode("a:b@c$d&e+f,g;h=i!j'k(l)m*n")).toBe("a:b@c$d&e+f,g;h=i!j'k(l)m*n");
+  });
+
+  it('encodes named route params the same way', () => {
+    const routes = createRoutes([{ path: '/users/:userId', name: 'user' }]);
+
+    expect(getRouteByName(routes, 'user', { userId: 'a/b c' }).toString()).toBe('/users/a%2Fb%20c');
+  });
+
+  it('accepts custom encode and decode hooks', () => {
+    const routes = createRoutes(['/tags/:tag'], {
+      encode: (v) => v.replace(/ /g, '-'),
+      decode: (v) => v.replace(/-/g, ' '),
+    });
+
+    expect(routes.tags('hello world').toString()).toBe('/tags/hello-world');
+    expect(matchRoute(routes, '/tags/hello-world')?.params).toEqual({ tag: 'hello world' });
+  });
+
+  it('decodes values read back from a pathname', () => {
+    const routes = createRoutes(['/users/:userId']);
+    const path = routes.users('a/b c').toString();
+
+    expect(decode(path.split('/')[2]!)).toBe('a/b c');
+    expect(matchRoute(routes, path)?.params).toEqual({ userId: 'a/b c' });
+  });
+
+  it('returns malformed sequences unchanged', () => {
+    expect(decode('%E0%A4%A')).toBe('%E0%A4%A');
+  });
+});
+
+describe('query serialization', () => {
+  it('drops undefined and null values', () => {
+    const routes = createRoutes(['/search']);
+
+    expect(routes.search({ q: 'a', page: undefined, sort: null }).toString()).toBe('/search?q=a');
+    expect(routes.search({ page: undefined }).toString()).toBe('/search');
+  });
+
+  it('repeats keys for arrays by default', () => {
+    const routes = createRoutes(['/search']);
+
+    expect(routes.search({ tag: ['a', 'b', null] }).toString()).toBe('/search?tag=a&tag=b');
+  });
+
+  it('serializes arrays with the configured format', () => {
+    const query = { tag: ['a', 'b'] };
+
+    expect(createRoutes(['/s'], { querySerializer: 'brackets' }).s(query).toString()).toBe('/s?tag%5B%5D=a&tag%5B%5D=b');
+    expect(createRoutes(['/s'], { querySerializer: 'comma' }).s(query).toString()).toBe('/s?tag=a%2Cb');
+    expect(createRoutes(['/s'], { querySerializer: 'json' }).s(query).toString()).toBe('/s?tag=%5B%22a%22%2C%22b%22%5D');
+  });
+
+  it('serializes nested objects qs-style', () => {
+    const serializer = createQuerySerializer('nested');
+
+    expect(decodeURIComponent(serializer.stringify({ filter: { status: 'open', ids: [1, 2] }, q: 'x' }))).toBe(
+      'filter[status]=open&filter[ids][0]=1&filter[ids][1]=2&q=x'
+    );
+  });
+
+  it('sorts keys when requested', () => {
+    const serializer = createQuerySerializer('repeat', { sortKeys: true });
+
+    expect(serializer.stringify({ b: 1, a: 2 })).toBe('a=2&b=1');
+  });
+
+  it('parses each format symmetrically', () => {
+    const cases = [
+      ['repeat', { tag: ['a', 'b'], q: 'x' }],
+      ['brackets', { tag: ['a', 'b'], q: 'x' }],
+      ['comma', { tag: ['a', 'b'], q: 'x' }],
+      ['json', { tag: ['a', 'b'], filter: { status: 'open' }, q: 'x' }],
+      ['nested', { filter: { status: 'open', ids: ['1', '2'] }, q: 'x' }],
+    ] as const;
+
+    for (const [format, query] of cases) {
+      const serializer = createQuerySerializer(format);
+      expect(serializer.parse(serializer.stringify(query))).toEqual(query);
+    }
+  });
+
+  it('reads keys named after Object.prototype members as plain keys', () => {
+    expect(createQuerySerializer('repeat').parse('toString=1&toString=2')).toEqual({ toString: ['1', '2'] });
+    expect(createQuerySerializer('brackets').parse('valueOf[]=1')).toEqual({ valueOf: ['1'] });
+    expect(createQuerySerializer('nested').parse('a[toString]=1')).toEqual({ a: { toString: '1' } });
+  });
+
+  it('drops nested keys that would reach into a prototype', () => {
+    const serializer = createQuerySerializer('nested');
+
+    expect(serializer.parse('__proto__[polluted]=yes&a[constructor][prototype][polluted]=yes&q=x')).toEqual({ q: 'x' });
+    expect(serializer.parse('a[__proto__][polluted]=yes&a[b]=1')).toEqual({ a: { b: '1' } });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('uses the configured serializer when matching', () => {
+    const routes = createRoutes(['/search'], { querySerializer: 'brackets' });
+
+    expect(matchRoute(routes, '/search?tag[]=a&tag[]=b')?.query).toEqual({ tag: ['a', 'b'] });
+  });
+
+  it('accepts a custom serializer', () => {
+    const routes = createRoutes(['/search'], {
+      querySerializer: {
+        stringify: (q) => Object.keys(q).join('+'),
+        parse: () => ({ custom: true }),
+      },
+    });
+
+    expect(routes.search({ a: 1, b: 2 }).toString()).toBe('/search?a+b');
+    expect(matchRoute(routes, '/search?x')?.query).toEqual({ custom: true });
+  });
+});
+
+describe('basePath and origin', () => {
+  it('prefixes URLs and patterns with the base path', () => {
+    const routes = createRoutes(['/', '/users/:userId'], { basePath: '/app/' });
+
+    expect(routes.$index.toString()).toBe('/app/');
+    expect(routes.users('abc', { tab: 'posts' }).toString()).toBe('/app/users/abc?tab=posts');
+    expect(routes.users('abc').toPattern()).toBe('/app/users/:userId');
+  });
+
+  it('can omit the base path from toPattern()', () => {
+    const routes = createRoutes(['/users/:userId'], { basePath: 'app' });
+
+    expect(routes.users('abc').toPattern({ basePath: false })).toBe('/users/:userId');
+  });
+
+  it('applies the base path to named routes', () => {
+    const routes = createRoutes([{ path: '/users/:userId', name: 'user' }], { basePath: '/app' });
+
+    expect(getRouteByName(routes, 'user', { userId: 'abc' }).toString()).toBe('/app/users/abc');
+  });
+
+  it('builds absolute URLs with toURL()', () => {
+    const routes = createRoutes([{ path: '/users/:userId', name: 'user' }], {
+      basePath: '/app',
+      origin: 'https://example.com',
+    });
+
+    expect(routes.users('abc').toURL().href).toBe('https://example.com/app/users/abc');
+    expect(getRouteByName(routes, 'user', { userId: 'abc' }).toURL().href).toBe('https://example.com/app/users/abc');
+    expect(routes.users('abc').toURL('https://other.dev').href).toBe('https://other.dev/app/users/abc');
+  });
+
+  it('throws from toURL() without an origin', () => {
+    const routes = createRoutes(['/about']);
+
+    expect(() => routes.about.toURL()).toThrow('toURL() needs an origin');
+    expect(() => routes.about.toURL()).toThrow(RouteArgumentError);
+  });
+
+  it('strips the base path when matching', () => {
+    const routes = createRoutes(['/', '/users/:userId'], { basePath: '/app' });
+
+    expect(matchRoute(routes, '/app/users/abc')?.params).toEqual({ userId: 'abc' });
+    expect(matchRoute(routes, '/app')?.pattern).toBe('/');
+    expect(matchRoute(routes, '/users/abc')).toBeNull();
+    expect(matchRoute(routes, '/application/users/abc')).toBeNull();
+  });
+});
+
+describe('hash fragments', () => {
+  it('appends the hash after the path and query', () => {
+    const routes = createRoutes(['/docs/api'], { trailingSlash: true });
+
+    expect(routes.docs.api.withHash('createRoutes').toString()).toBe('/docs/api/#createRoutes');
+    expect(routes.docs.api({ q: 'x' }).withHash('#intro').toString()).toBe('/docs/api/?q=x#intro');
+  });
+
+  it('restricts hashes to the configured literals', () => {
+    const routes = createRoutes([{ path: '/docs/api', hash: ['createRoutes', 'getRouteByName'] }]);
+
+    expect(routes.docs.api.withHash('getRouteByName').toString()).toBe('/docs/api#getRouteByName');
+    // @ts-expect-error - not one of the configured hashes
+    expect(() => routes.docs.api.withHash('nope')).toThrow('Invalid hash for "/docs/api": "nope" is not one of');
+  });
+
+  it('runs a hash parser', () => {
+    const routes = createRoutes([{ path: '/docs', hash: (v: string) => v.toLowerCase() }]);
+
+    expect(routes.docs.withHash('Intro').toString()).toBe('/docs#intro');
+  });
+
+  it('encodes the hash', () => {
+    const routes = createRoutes(['/docs']);
+
+    expect(routes.docs.withHash('a b/c?d').toString()).toBe('/docs#a%20b/c?d');
+  });
+
+  it('supports hashes on named routes', () => {
+    const routes = createRoutes([{ path: '/users/:userId', name: 'user', hash: ['posts'] }]);
+
+    const node = getRouteByName(routes, 'user', { userId: 'abc' }, undefined).withHash('posts');
+
+    expect(node.toString()).toBe('/users/abc#posts');
+    expect(node.__hash).toBe('posts');
+  });
+
+  it('returns the hash from matchRoute', () => {
+    const routes = createRoutes([{ path: '/docs', hash: ['intro'] }]);
+
+    expect(matchRoute(routes, '/docs#intro')?.hash).toBe('intro');
+    expect(matchRoute(routes, '/docs#other')?.hash).toBeUndefined();
+  });
+});
+
+describe('nested definitions', () => {
+  const toNumber = (v: unknown) => Number(v);
+
+  const createProjectRoutes = () =>
+    createRoutes([
+      {
+        path: '/orgs/:orgId/projects/:projectId',
+        name: 'project',
+        params: { projectId: toNumber },
+        query: { tab: (v: unknown) => String(v) },
+        meta: { requiresAuth: true, section: 'projects' },
+        children: [
+          'settings',
+          { path: 'issues/:issueId', name: 'issue', params: { issueId: toNumber }, meta: { section: 'issues' } },
+          { path: '/members', children: [{ path: ':memberId', name: 'member' }] },
+        ],
+      },
+    ]);
+
+  it('builds child routes under the parent path', () => {
+    const routes = createProjectRoutes();
+
+    expect(routes.orgs('acme').projects(1).toString()).toBe('/orgs/acme/projects/1');
+    expect(routes.orgs('acme').projects(1).settings.toString()).toBe('/orgs/acme/projects/1/settings');
+    expect(routes.orgs('acme').projects(1).issues(7).toString()).toBe('/orgs/acme/projects/1/issues/7');
+    expect(routes.orgs('acme').projects(1).members('m1').toString()).toBe('/orgs/acme/projects/1/members/m1');
+  });
+
+  it('inherits and merges meta', () => {
+    const routes = createProjectRoutes();
+
+    expect(routes.orgs('acme').projects(1).settings.getMeta()).toEqual({ requiresAuth: true, section: 'projects' });
+    expect(routes.orgs('acme').projects(1).issues(7).getMeta()).toEqual({ requiresAuth: true, section: 'issues' });
+  });
+
+  it('inherits param and query parsers', () => {
+    const routes = createProjectRoutes();
+
+    expect(getRouteByName(routes, 'issue', { orgId: 'acme', projectId: '2', issueId: '3' }).toString()).toBe(
+      '/orgs/acme/projects/2/issues/3'
+    );
+    expect(matchRoute(routes, '/orgs/acme/projects/2/members/m1?tab=1')).toEqual({
+      name: 'member',
+      pattern: '/orgs/:orgId/projects/:projectId/members/:memberId',
+      params: { orgId: 'acme', projectId: 2, memberId: 'm1' },
+      query: { tab: '1' },
+      meta: { requiresAuth: true, section: 'projects' },
+    });
+  });
+
+  it('returns flat and nested views from getAllRoutes', () => {
+    const routes = createProjectRoutes();
+
+    expect(getAllRoutes(routes).map((r) => r.pattern)).toEqual([
+      '/orgs/:orgId/projects/:projectId',
+      '/orgs/:orgId/projects/:projectId/settings',
+      '/orgs/:orgId/projects/:projectId/issues/:issueId',
+      '/orgs/:orgId/projects/:projectId/members',
+      '/orgs/:orgId/projects/:projectId/members/:memberId',
+    ]);
+
+    const [project] = getAllRoutes(routes, { nested: true });
+    expect(project?.name).toBe('project');
+    expect(project?.children?.map((r) => r.pattern)).toEqual([
+      '/orgs/:orgId/projects/:projectId/settings',
+      '/orgs/:orgId/projects/:projectId/issues/:issueId',
+      '/orgs/:orgId/projects/:projectId/members',
+    ]);
+    expect(project?.children?.[2]?.children?.[0]?.name).toBe('member');
+  });
+
+  it('type-checks params of child routes against the full path', () => {
+    createRoutes([
+      {
+        path: '/orgs/:orgId',
+        children: [{ path: 'repos/:repoId', params: { orgId: toNumber, repoId: toNumber } }],
+      },
+    ]);
+
+    createRoutes([
+      {
+        path: '/orgs/:orgId',
+        // @ts-expect-error - 'wrongName' is not a param of "/orgs/:orgId/repos/:repoId"
+        children: [{ path: 'repos/:repoId', params: { wrongName: toNumber } }],
+      },
+    ]);
+  });
+});
+
+describe('mountRoutes and mergeRoutes', () => {
+  it('mounts a tree under a prefix', () => {
+    const admin = createRoutes(['/', { path: '/users/:userId', name: 'adminUser' }]);
+    const mounted = mountRoutes('/admin', admin);
+
+    expect(mounted.admin.toString()).toBe('/admin');
+    expect(mounted.admin.users('abc').toString()).toBe('/admin/users/abc');
+    expect(getRouteByName(mounted, 'adminUser', { userId: 'abc' }).toString()).toBe('/admin/users/abc');
+    expect(getAllRoutes(mounted).map((r) => r.pattern)).toEqual(['/admin', '/admin/users/:userId']);
+  });
+
+  it('merges trees with their named routes', () => {
+    const shop = createRoutes([{ path: '/products/:productId', name: 'product' }]);
+    const blog = createRoutes([{ path: '/posts/:postId', name: 'post' }, '/']);
+    const routes = mergeRoutes(blog, mountRoutes('/shop', shop));
+
+    expect(routes.$index.toString()).toBe('/');
+    expect(routes.shop.products('p1').toString()).toBe('/shop/products/p1');
+    expect(getRouteByName(routes, 'product', { productId: 'p1' }).toString()).toBe('/shop/products/p1');
+    expect(getRouteByName(routes, 'post', { postId: 1 }).toString()).toBe('/posts/1');
+    expect(matchRoute(routes, '/shop/products/p1')?.name).toBe('product');
+  });
+
+  it('uses the options of the first tree', () => {
+    const a = createRoutes(['/a'], { trailingSlash: true });
+    const b = createRoutes(['/b']);
+
+    expect(mergeRoutes(a, b).b.toString()).toBe('/b/');
+  });
+
+  it('rejects duplicate route names', () => {
+    const a = createRoutes([{ path: '/a', name: 'home' }]);
+    const b = createRoutes([{ path: '/b', name: 'home' }]);
+
+    // @ts-expect-error - duplicate route name "home"
+    expect(() => mergeRoutes(a, b)).toThrow('duplicate route name "home"');
+  });
+
+  it('rejects overlapping patterns', () => {
+    const a = createRoutes(['/users/:userId']);
+    const b = createRoutes(['/users/:id']);
+
+    // @ts-expect-error - "/users/:id" overlaps "/users/:userId"
+    expect(() => mergeRoutes(a, b)).toThrow('"/users/:id" overlaps "/users/:userId"');
+  });
+});
+
+describe('definition diagnostics', () => {
+  const strict = { validate: 'strict' } as const;
+
+  it('rejects duplicate names', () => {
+    expect(() =>
+      // @ts-expect-error - duplicate route name "home"
+      createRoutes([{ path: '/', name: 'home' }, { path: '/home', name: 'home' }], strict)
+    ).toThrow('Duplicate route name "home": "/" and "/home"');
+  });
+
+  it('rejects duplicate patterns', () => {
+    // @ts-expect-error - "/users/:id" matches the same URLs as "/users/:userId"
+    expect(() => createRoutes(['/users/:userId', '/users/:id'], strict)).toThrow(
+      'Duplicate route pattern: "/users/:userId" and "/users/:id" match the same URLs'
+    );
+  });
+
+  it('rejects conflicting param names at the same position', () => {
+    expect(() => createRoutes(['/users/:userId', '/users/:id/edit'], strict)).toThrow(
+      'Conflicting param names at the same position: ":userId" in "/users/:userId" and ":id" in "/users/:id/edit"'
+    );
+  });
+
+  it('rejects conflicting parsers at the same position', () => {
+    const definitions = [
+      { path: '/users/:id', params: { id: Number } },
+      { path: '/users/:id/edit', params: { id: String } },
+    ] as const;
+
+    expect(() => createRoutes(definitions, strict)).toThrow(
+      'Conflicting parsers for ":id" in "/users/:id" and "/users/:id/edit"'
+    );
+  });
+
+  it('rejects invalid segments', () => {
+    expect(() => createRoutes(['users'], strict)).toThrow('Route pattern "users" must start with "/"');
+    expect(() => createRoutes(['/users/:id/:id'], strict)).toThrow('Param "id" appears more than once in "/users/:id/:id"');
+    expect(() => createRoutes(['/files/*/raw'], strict)).toThrow('Splat segment "*" must be the last segment in "/files/*/raw"');
+  });
+
+  it('rejects static segments named after route node methods', () => {
+    try {
+      createRoutes(['/family/parent', '/family/parent/children', '/docs/toURL'], strict);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as RouteDefinitionError).issues).toEqual([
+        expect.objectContaining({ code: 'invalid-segment', patterns: ['/family/parent'] }),
+        expect.objectContaining({ code: 'invalid-segment', patterns: ['/family/parent/children'] }),
+        expect.objectContaining({ code: 'invalid-segment', patterns: ['/docs/toURL'] }),
+      ]);
+    }
+    expect(() => createRoutes(['/family/parent'], strict)).toThrow('Segment "parent" in "/family/parent" is reserved');
+    expect(() => createRoutes(['/family/parents', '/family/:parent'], strict)).not.toThrow();
+  });
+
+  it('collects every issue with the offending patterns', () => {
+    const definitions = [
+      { path: '/a', name: 'x' },
+      { path: '/b', name: 'x' },
+      '/users/:userId',
+      '/users/:id/edit',
+    ] as const;
+
+    try {
+      // @ts-expect-error - duplicate route name "x"
+      createRoutes(definitions, strict);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(RouteDefinitionError);
+      expect((error as RouteDefinitionError).issues).toEqual([
+        expect.objectContaining({ code: 'duplicate-name', patterns: ['/a', '/b'] }),
+        expect.objectContaining({ code: 'conflicting-param-name', patterns: ['/users/:userId', '/users/:id/edit'] }),
+      ]);
+    }
+  });
+
+  it('warns by default and can be turned off', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const definitions = ['/users/:userId', '/users/:id/edit'] as const;
+
+    createRoutes(definitions);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('[routish] Conflicting param names'));
+
+    warn.mockClear();
+    createRoutes(definitions, { validate: 'off' });
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('errors and safe APIs', () => {
+  const toNumber = (v: unknown) => {
+    const num = Number(v);
+    if (isNaN(num)) throw new Error('Not a number');
+    return num;
+  };
+  const routes = createRoutes([
+    { path: '/users/:userId', name: 'user', params: { userId: toNumber }, query: { page: toNumber } },
+  ]);
+
+  const catchError = (fn: () => unknown): unknown => {
+    try {
+      fn();
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected an error');
+  };
+
+  it('reports rejected params with their pattern and key', () => {
+    const error = catchError(() => routes.users('abc')) as RouteValidationError;
+
+    expect(error).toBeInstanceOf(RouteValidationError);
+    expect(error).toBeInstanceOf(RoutishError);
+    expect(error).toMatchObject({ pattern: '/users/:userId', kind: 'param', key: 'userId' });
+    expect(error.issues).toEqual([{ message: 'Not a number' }]);
+    expect(error.message).toBe('Invalid param "userId" for "/users/:userId": Not a number');
+  });
+
+  it('reports rejected query values with their key', () => {
+    const error = catchError(() => getRouteByName(routes, 'user', { userId: 1 }, { page: 'x' }));
+
+    expect(error).toMatchObject({ name: 'RouteValidationError', kind: 'query', key: 'page', pattern: '/users/:userId' });
+  });
+
+  it('uses dedicated classes for unknown names, undefined routes and bad arguments', () => {
+    // @ts-expect-error - unknown route name
+    expect(catchError(() => getRouteByName(routes, 'nope'))).toMatchObject({ name: 'RouteNotFoundError', routeName: 'nope' });
+    expect(catchError(() => routes.users.toString())).toBeInstanceOf(UndefinedRouteError);
+    expect(catchError(() => routes.$index.toString())).toMatchObject({ pattern: '/' });
+    expect(catchError(() => routes.users(true))).toBeInstanceOf(RouteArgumentError);
+  });
+
+  it('returns results from safeGetRouteByName', () => {
+    const ok = safeGetRouteByName(routes, 'user', { userId: 1 });
+    const failed = safeGetRouteByName(routes, 'user', { userId: 'abc' });
+
+    expect(ok.success && ok.data.toString()).toBe('/users/1');
+    expect(failed.success).toBe(false);
+    expect(!failed.success && failed.error).toBeInstanceOf(RouteValidationError);
+    // @ts-expect-error - unknown route name
+    expect(safeGetRouteByName(routes, 'nope')).toEqual({ success: false, error: expect.any(RouteNotFoundError) });
+  });
+
+  it('returns results from node.safeToString()', () => {
+    expect(routes.users(1).safeToString()).toEqual({ success: true, data: '/users/1' });
+    expect(routes.users.safeToString()).toEqual({ success: false, error: expect.any(UndefinedRouteError) });
+  });
+});
+
+describe('object-style param calls', () => {
+  const toNumber = (v: unknown) => Number(v);
+  const routes = createRoutes([
+    '/orgs/:orgId',
+    {
+      path: '/orgs/:orgId/projects/:projectId/issues/:issueId/comments/:commentId',
+      params: { issueId: toNumber },
+      query: { page: toNumber },
+    },
+    { path: '/orgs/:orgId/settings', meta: { title: 'Settings' } },
+    '/docs/*',
+  ]);
+
+  it('fills in every param of a route with $with()', () => {
+    const node = routes.orgs.projects.issues.comments.$with(
+      { orgId: 'acme', projectId: 'web', issueId: '7', commentId: 'c1' },
+      { page: '2' }
+    );
+
+    expect(node.toString()).toBe('/orgs/acme/projects/web/issues/7/comments/c1?page=2');
+    expect(node.toString()).toBe(routes.orgs('acme').projects('web').issues(7).comments('c1', { page: 2 }).toString());
+  });
+
+  it('fills in only the params that were skipped', () => {
+    const node = routes.orgs('acme').projects.issues.comments.$with({ projectId: 'web', issueId: 7, commentId: 'c1' });
+
+    expect(node.toString()).toBe('/orgs/acme/projects/web/issues/7/comments/c1');
+    expect(routes.orgs.$with({ orgId: 'acme' }).toString()).toBe('/orgs/acme');
+    expect(routes.docs.$with({ '*': ['a', 'b'] }).toString()).toBe('/docs/a/b');
+  });
+
+  it('runs the same parsers as chained calls', () => {
+    const parsed = createRoutes([{ path: '/users/:userId/posts', params: { userId: (v: unknown) => String(v).toUpperCase() } }]);
+
+    expect(parsed.users.posts.$with({ userId: 'ab' }).toString()).toBe('/users/AB/posts');
+  });
+
+  it('exposes the pattern and meta of templates', () => {
+    expect(routes.orgs.settings.toPattern()).toBe('/orgs/:orgId/settings');
+    expect(routes.orgs.settings.getMeta()).toEqual({ title: 'Settings' });
+    expect(() => routes.orgs.projects.issues.comments.toString()).toThrow(
+      'Missing values for "orgId", "projectId", "issueId" in "/orgs/:orgId/projects/:projectId/issues/:issueId/comments"'
+    );
+  });
+
+  it('type-checks param names', () => {
+    // @ts-expect-error - 'commentId' is missing
+    expect(() => routes.orgs.projects.issues.comments.$with({ orgId: 'a', projectId: 'b', issueId: 1 })).toThrow(
+      'Missing value for param "commentId" in "/orgs/:orgId/projects/:projectId/issues/:issueId/comments/:commentId"'
+    );
+    // @ts-expect-error - 'id' is not a param of the route
+    expect(() => routes.orgs.$with({ id: 'a' })).toThrow(RouteArgumentError);
+    // @ts-expect-error - 'orgId' is missing
+    expect(() => routes.orgs.settings.$with({})).toThrow('Missing value for param "orgId" in "/orgs/:orgId/settings"');
+  });
+});
+
+describe('derived nodes', () => {
+  const toNumber = (v: unknown) => Number(v);
+  const routes = createRoutes([
+    '/',
+    { path: '/users/:userId', name: 'user' },
+    {
+      path: '/users/:userId/posts/:postId',
+      name: 'post',
+      params: { postId: toNumber },
+      query: { page: toNumber, sort: (v: unknown) => String(v) },
+      hash: ['comments'],
+    },
+    '/docs/:version?/intro',
+  ]);
+
+  it('merges query keys with withQuery()', () => {
+    const node = routes.users('1').posts(2, { page: 1, sort: 'new' });
+
+    expect(node.withQuery({ page: '3' }).toString()).toBe('/users/1/posts/2?page=3&sort=new');
+    expect(node.withQuery({ sort: null }).toString()).toBe('/users/1/posts/2?page=1');
+    expect(node.withQuery({ page: undefined, sort: undefined }).toString()).toBe('/users/1/posts/2');
+    expect(node.withHash('comments').withQuery({ page: 4 }).toString()).toBe('/users/1/posts/2?page=4&sort=new#comments');
+    // @ts-expect-error - 'tag' is not a query key of the route
+    node.withQuery({ tag: 'x' });
+  });
+
+  it('replaces params with withParams()', () => {
+    const node = getRouteByName(routes, 'post', { userId: '1', postId: 2 }, { page: 1, sort: 'new' });
+
+    expect(node.withParams({ postId: '3' }).toString()).toBe('/users/1/posts/3?page=1&sort=new');
+    expect(routes.users('1').posts(2).withParams({ userId: 'a' }).toString()).toBe('/users/a/posts/2');
+    expect(routes.docs('v2').intro.withParams({ version: undefined }).toString()).toBe('/docs/intro');
+    // @ts-expect-error - 'id' is not a param of the route
+    node.withParams({ id: '1' });
+  });
+
+  it('walks up to defined routes with parent() and ancestors()', () => {
+    const node = routes.users('1').posts(2, { page: 1, sort: 'new' });
+
+    expect(node.parent()?.toString()).toBe('/users/1');
+    expect(node.ancestors().map(String)).toEqual(['/', '/users/1']);
+    expect(routes.$index.parent()).toBeNull();
+    expect(routes.docs.intro.ancestors().map(String)).toEqual(['/']);
+  });
+
+  it('throws for nodes that are not defined routes', () => {
+    expect(() => routes.users.parent()).toThrow(UndefinedRouteError);
+  });
+});
+
+describe('active routes', () => {
+  const routes = createRoutes(
+    [
+      '/',
+      '/users',
+      '/users/:userId',
+      { path: '/users/:userId/posts/:postId', query: { tab: (v: unknown) => String(v) } },
+      '/docs/*',
+    ],
+    { trailingSlash: true }
+  );
+
+  it('matches the node path and anything below it', () => {
+    const user = routes.users('123');
+
+    expect(isActive(user, '/users/123/')).toBe(true);
+    expect(isActive(user, '/users/123')).toBe(true);
+    expect(isActive(user, '/users/123/posts/4/')).toBe(true);
+    expect(isActive(user, '/users/456/')).toBe(false);
+    expect(isActive(user, '/users/')).toBe(false);
+    expect(isActive(routes.$index, '/users/123/')).toBe(true);
+  });
+
+  it('requires the same path with exact', () => {
+    expect(isActive(routes.users('123'), '/users/123/', { exact: true })).toBe(true);
+    expect(isActive(routes.users('123'), '/users/123/posts/4/', { exact: true })).toBe(false);
+    expect(isActive(routes.$index, '/users/123/', { exact: true })).toBe(false);
+  });
+
+  it('treats skipped params and splats as wildcards', () => {
+    expect(isActive(routes.users.posts, '/users/123/posts/4/')).toBe(true);
+    expect(isActive(routes.docs(['guide', 'intro']), new URL('https://example.com/docs/guide/intro/'))).toBe(true);
+    expect(isActive(routes.docs(['guide', 'intro']), '/docs/guide/')).toBe(false);
+  });
+
+  it('compares query values set on the node', () => {
+    const post = routes.users('1').posts('2', { tab: 'comments' });
+
+    expect(isActive(post, '/users/1/posts/2/?tab=comments&page=3')).toBe(true);
+    expect(isActive(post, '/users/1/posts/2/?tab=likes')).toBe(false);
+    expect(isActive(post, '/users/1/posts/2/?tab=likes', { ignoreQuery: true })).toBe(true);
+    expect(isActive(post, '/users/1/posts/2/?tab=comments&page=3', { exact: true })).toBe(false);
+    expect(isActive(post, '/users/1/posts/2/?tab=comments&page=3', { exact: true, queryKeys: ['tab'] })).toBe(true);
+  });
+
+  it('respects basePath', () => {
+    const app = createRoutes(['/users/:userId'], { basePath: '/app' });
+
+    expect(isActive(app.users('1'), '/app/users/1')).toBe(true);
+    expect(isActive(app.users('1'), '/users/1')).toBe(false);
+  });
+
+  it('compares nodes with isAncestorOf()', () => {
+    const post = routes.users('1').posts('2');
+
+    expect(isAncestorOf(routes.users('1'), post)).toBe(true);
+    expect(isAncestorOf(routes.users, post)).toBe(true);
+    expect(isAncestorOf(routes.$index, post)).toBe(true);
+    expect(isAncestorOf(routes.users('2'), post)).toBe(false);
+    expect(isAncestorOf(post, post)).toBe(false);
+    expect(isAncestorOf(routes.docs(['a']), routes.docs(['a', 'b']))).toBe(false);
+  });
+});
+
+describe('router adapters', () => {
+  const toNumber = (v: unknown) => {
+    const n = Number(v);
+    if (Number.isNaN(n)) throw new Error('Not a number');
+    return n;
+  };
+  const routes = createRoutes([
+    '/',
+    { path: '/users', name: 'users' },
+    { path: '/users/:userId', name: 'user', params: { userId: toNumber }, meta: { title: 'User' } },
+    { path: '/users/:userId/posts/:postId', name: 'post', query: { page: toNumber } },
+    '/settings/profile',
+    '/docs/:version?/intro',
+    '/files/*',
+  ]);
+  const stripFunctions = (value: unknown): unknown =>
+    JSON.parse(JSON.stringify(value, (_, v) => (typeof v === 'function' ? undefined : v)));
+
+  it('nests React Router objects under the routes above them', () => {
+    const objects = toReactRouterObjects(routes, { user: { element: 'User' }, '/files/*': { element: 'Files' } });
+
+    expect(stripFunctions(objects)).toEqual([
+      { path: '/' },
+      {
+        path: '/users',
+        children: [
+          { index: true, id: 'users' },
+          {
+            path: ':userId',
+            children: [{ index: true, id: 'user', element: 'User' }, { path: 'posts/:postId', id: 'post' }],
+          },
+        ],
+      },
+      { path: '/settings/profile' },
+      { path: '/docs/:version?/intro' },
+      { path: '/files/*', element: 'Files' },
+    ]);
+  });
+
+  it('runs parsers in React Router loaders', async () => {
+    const loader = vi.fn((_args: unknown, match: { params: unknown; query: unknown }) => match.params);
+    const [, users] = toReactRouterObjects(routes, { post: { loader } });
+    const post = users!.children![1]!.children![1]!;
+
+    await expect(
+      post.loader!({ request: { url: 'http://localhost/users/1/posts/2?page=3' }, params: { userId: '1', postId: '2' } })
+    ).resolves.toEqual({ userId: '1', postId: '2' });
+    expect(loader.mock.calls[0]![1]).toMatchObject({ name: 'post', query: { page: 3 } });
+
+    const user = users!.children![1]!.children![0]!;
+    await expect(user.loader!({ request: { url: 'http://localhost/users/x' }, params: { userId: 'x' } })).rejects.toThrow(
+      RouteValidationError
+    );
+  });
+
+  it('builds Vue Router records with validating guards', async () => {
+    const onInvalid = vi.fn(() => false);
+    const records = toVueRouterRecords(routes, { user: { component: 'User' } }, { onInvalid });
+    const user = records[1]!.children![1]!;
+
+    expect(user.path).toBe(':userId');
+    expect(user.children![0]).toMatchObject({ path: '', name: 'user', meta: { title: 'User' }, component: 'User' });
+    expect(records.at(-1)!.path).toBe('/files/:pathMatch(.*)+');
+
+    const guard = user.children![0]!.beforeEnter!;
+    await expect(guard({ fullPath: '/users/1', params: { userId: '1' } }, undefined)).resolves.toBeUndefined();
+    await expect(guard({ fullPath: '/users/x', params: { userId: 'x' } }, undefined)).resolves.toBe(false);
+    expect(onInvalid).toHaveBeenCalledWith(expect.any(RouteValidationError));
+  });
+
+  it('builds TanStack-style route configs', () => {
+    const configs = toTanStackRouteConfigs(routes);
+    const user = configs[1]!.children![1]!;
+
+    expect(user.path).toBe('$userId');
+    expect(user.children![1]!.path).toBe('posts/$postId');
+    expect(configs.map((config) => config.path)).toEqual(['/', '/users', '/settings/profile', '/docs/{-$version}/intro', '/files/$']);
+    expect(user.children![0]!.params!.parse({ userId: '5' })).toEqual({ userId: 5 });
+    expect(user.children![1]!.validateSearch!({ page: '2' })).toEqual({ page: 2 });
+    expect(() => user.children![0]!.params!.parse({ userId: 'x' })).toThrow('Invalid param "userId" for "/users/:userId"');
+  });
+
+  it('type-checks entry keys', () => {
+    // @ts-expect-error - 'nope' is neither a route name nor a pattern
+    expect(() => toVueRouterRecords(routes, { nope: {} })).not.toThrow();
+  });
+});
+
+describe('server handlers', () => {
+  const toNumber = (v: unknown) => {
+    const n = Number(v);
+    if (Number.isNaN(n)) throw new Error('Not a number');
+    return n;
+  };
+  const routes = createRoutes([
+    { path: '/users/:userId', name: 'user', params: { userId: toNumber }, meta: { auth: true } },
+    { path: '/search', name: 'search', query: { q: (v: unknown) => String(v) } },
+    { path: '/health', name: 'health' },
+    '/about',
+  ]);
+  const map = createHandlerMap(routes, {
+    user: (ctx) => {
+      const id: number = ctx.params.userId;
+      return { id, auth: ctx.meta.auth };
+    },
+    search: (ctx, request: { tag: string }) => ({ q: ctx.query.q, tag: request.tag }),
+    health: () => undefined,
+  });
+
+  it('runs the handler of the matched route with parsed values', async () => {
+    await expect(map.handle('/users/42', { tag: 'a' })).resolves.toEqual({ type: 'handled', value: { id: 42, auth: true } });
+    await expect(map.handle('/search?q=cats', { tag: 'b' })).resolves.toEqual({ type: 'handled', value: { q: 'cats', tag: 'b' } });
+  });
+
+  it('tells unmatched URLs from invalid ones', async () => {
+    await expect(map.handle('/nope', { tag: '' })).resolves.toEqual({ type: 'not-found' });
+    await expect(map.handle('/about', { tag: '' })).resolves.toEqual({ type: 'not-found' });
+    const outcome = await map.handle('/users/abc', { tag: '' });
+    expect(outcome.type).toBe('invalid');
+    expect(outcome.type === 'invalid' && outcome.error).toBeInstanceOf(RouteValidationError);
+  });
+
+  it('runs parsers that validate asynchronously', async () => {
+    const asyncNumber: StandardSchemaV1<string, number> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: async (value) => (/^\d+$/.test(String(value)) ? { value: Number(value) } : { issues: [{ message: 'Expected a number' }] }),
+      },
+    };
+    const asyncRoutes = createRoutes([{ path: '/orders/:id', name: 'order', params: { id: asyncNumber }, query: { page: asyncNumber } }]);
+    const asyncMap = createHandlerMap(asyncRoutes, { order: (ctx) => ({ id: ctx.params.id, page: ctx.query.page }) });
+
+    await expect(asyncMap.handle('/orders/42?page=2', undefined)).resolves.toEqual({ type: 'handled', value: { id: 42, page: 2 } });
+    const outcome = await asyncMap.handle('/orders/abc', undefined);
+    expect(outcome.type === 'invalid' && outcome.error).toBeInstanceOf(RouteValidationError);
+  });
+
+  it('responds through the Fetch adapter', async () => {
+    const handler = toFetchHandler(createHandlerMap(routes, { user: (ctx) => ({ id: ctx.params.userId }), health: () => undefined }));
+
+    const ok = await handler(new Request('http://localhost/users/7'));
+    expect(ok.status).toBe(200);
+    await expect(ok.json()).resolves.toEqual({ id: 7 });
+    expect((await handler(new Request('http://localhost/health'))).status).toBe(204);
+    expect((await handler(new Request('http://localhost/missing'))).status).toBe(404);
+    const invalid = await handler(new Request('http://localhost/users/x'));
+    expect(invalid.status).toBe(400);
+    await expect(invalid.json()).resolves.toMatchObject({ issues: [{ message: 'Not a number' }] });
+  });
+
+  it('responds through the Node and Express adapters', async () => {
+    const typedMap = createHandlerMap(routes, { user: (ctx) => ({ id: ctx.params.userId }) });
+    const res = { statusCode: 0, headersSent: false, setHeader: vi.fn(), end: vi.fn() };
+
+    await toNodeHandler(typedMap)({ url: '/users/3' }, res);
+    expect(res.statusCode).toBe(200);
+    expect(res.end).toHaveBeenCalledWith('{"id":3}');
+    await toNodeHandler(typedMap)({ url: '/users/x' }, res);
+    expect(res.statusCode).toBe(400);
+
+    const failure = new Error('db down');
+    const onError = vi.fn();
+    const failing = createHandlerMap(routes, {
+      user: () => {
+        throw failure;
+      },
+    });
+    await toNodeHandler(failing, { onError })({ url: '/users/3' }, res);
+    expect(res.statusCode).toBe(500);
+    expect(onError).toHaveBeenCalledWith(failure, { url: '/users/3' });
+
+    const json = vi.fn();
+    const expressRes = { headersSent: false, status: vi.fn(() => expressRes), json, end: vi.fn() };
+    await toExpressHandler(typedMap)({ originalUrl: '/nope' }, expressRes, vi.fn());
+    expect(expressRes.status).toHaveBeenCalledWith(404);
+    expect(json).toHaveBeenCalledWith({ error: 'Not Found' });
+  });
+
+  it('type-checks handler names and params', () => {
+    // @ts-expect-error - 'about' has no name, 'nope' is not a route name
+    createHandlerMap(routes, { nope: () => null });
+    createHandlerMap(routes, {
+      // @ts-expect-error - userId is parsed to a number
+      user: (ctx) => ctx.params.userId.toUpperCase(),
+    });
+  });
+});
+
+describe('pattern formats', () => {
+  const routes = createRoutes(
+    ['/', '/users/:userId/posts/:postId', '/docs/:version?/intro', '/files/*', '/wiki/:path*', '/v1.0/status'],
+    { basePath: '/app' }
+  );
+
+  it('emits each dialect from toPattern()', () => {
+    const post = routes.users('1').posts('2');
+
+    expect(post.toPattern({ format: 'colon' })).toBe('/app/users/:userId/posts/:postId');
+    expect(post.toPattern({ format: 'next', basePath: false })).toBe('/users/[userId]/posts/[postId]');
+    expect(post.toPattern({ format: 'openapi', basePath: false })).toBe('/users/{userId}/posts/{postId}');
+    expect(post.toPattern({ format: 'urlpattern' })).toBe('/app/users/:userId/posts/:postId');
+    expect(post.toPattern({ format: 'regex' })).toBe('^/app/users/(?<userId>[^/]+)/posts/(?<postId>[^/]+)/?$');
+    expect(routes.$index.toPattern({ format: 'regex', basePath: false })).toBe('^/$');
+  });
+
+  it('converts optional and splat segments where the dialect supports them', () => {
+    const intro = routes.docs('v2').intro;
+
+    expect(intro.toPattern({ format: 'urlpattern', basePath: false })).toBe('/docs/:version?/intro');
+    expect(intro.toPattern({ format: 'regex', basePath: false })).toBe('^/docs(?:/(?<version>[^/]+))?/intro/?$');
+    expect(() => intro.toPattern({ format: 'next' })).toThrow(RouteArgumentError);
+    expect(routes.files(['a']).toPattern({ format: 'next', basePath: false })).toBe('/files/[...splat]');
+    expect(routes.wiki(['a']).toPattern({ format: 'urlpattern', basePath: false })).toBe('/wiki/:path+');
+    expect(routes.files(['a']).toPattern({ format: 'regex', basePath: false })).toBe('^/files/(.+)/?$');
+    expect(() => routes.wiki(['a']).toPattern({ format: 'openapi' })).toThrow('Can\'t express splat "path"');
+    expect(routes['v1.0'].status.toPattern({ format: 'regex', basePath: false })).toBe('^/v1\\.0/status/?$');
+  });
+
+  it('formats the patterns of getAllRoutes()', () => {
+    expect(getAllRoutes(routes, { format: 'urlpattern' }).map((r) => r.pattern)).toEqual([
+      '/',
+      '/users/:userId/posts/:postId',
+      '/docs/:version?/intro',
+      '/files/*',
+      '/wiki/:path+',
+      '/v1.0/status',
+    ]);
+
+    const nested = createRoutes([{ path: '/users/:userId', children: ['posts'] }]);
+    expect(getAllRoutes(nested, { nested: true, format: 'next' })[0]?.children?.[0]?.pattern).toBe('/users/[userId]/posts');
+  });
+
+  it('builds regexes that match the routes', () => {
+    const regex = new RegExp(routes.docs('v2').intro.toPattern({ format: 'regex', basePath: false }));
+
+    expect(regex.exec('/docs/v2/intro')?.groups).toEqual({ version: 'v2' });
+    expect(regex.test('/docs/intro/')).toBe(true);
+    expect(regex.test('/docs/a/b/intro')).toBe(false);
+  });
+});
+
+describe('static paths and sitemaps', () => {
+  const routes = createRoutes(
+    [
+      { path: '/', meta: { priority: 1 } },
+      { path: '/about', meta: { changefreq: 'monthly' } },
+      { path: '/admin', meta: { sitemap: false } },
+      { path: '/users/:userId', name: 'user', params: { userId: (v: unknown) => String(v).toLowerCase() } },
+      '/docs/:version?',
+      '/files/*',
+    ],
+    { basePath: '/app' }
+  );
+
+  it('generates static paths and paths from sources', async () => {
+    const onSkip = vi.fn();
+    const sources = {
+      user: () => [{ userId: 'Ada' }, { userId: 'Bob' }],
+      '/docs/:version?': async function* () {
+        yield { version: 'v1' };
+        yield {};
+      },
+    };
+    const paths = await generatePaths(routes, sources, { onSkip });
+
+    expect(paths.map((p) => p.path)).toEqual([
+      '/app/',
+      '/app/about',
+      '/app/admin',
+      '/app/users/ada',
+      '/app/users/bob',
+      '/app/docs/v1',
+      '/app/docs',
+    ]);
+    expect(paths[3]).toEqual({ path: '/app/users/ada', pattern: '/users/:userId', name: 'user', params: { userId: 'Ada' }, meta: undefined });
+    expect(onSkip.mock.calls).toEqual([[{ pattern: '/files/*', name: undefined }]]);
+  });
+
+  it('rejects values the parsers reject', async () => {
+    const toNumber = (v: unknown) => {
+      if (Number.isNaN(Number(v))) throw new Error('Not a number');
+      return Number(v);
+    };
+    const strict = createRoutes([{ path: '/posts/:postId', params: { postId: toNumber } }]);
+
+    await expect(generatePaths(strict, { '/posts/:postId': () => [{ postId: 'x' }] })).rejects.toThrow(RouteValidationError);
+  });
+
+  it('renders a sitemap', async () => {
+    const paths = await generatePaths(routes, { user: () => [{ userId: 'a&b' }], '/files/*': () => [{ '*': ['x'] }] });
+    const xml = renderSitemap(paths, { origin: 'https://example.com', lastmod: new Date('2024-01-02T00:00:00Z') });
+
+    expect(xml).toContain('<loc>https://example.com/app/</loc>\n    <lastmod>2024-01-02T00:00:00.000Z</lastmod>\n    <priority>1</priority>');
+    expect(xml).toContain('<changefreq>monthly</changefreq>');
+    expect(xml).toContain('<loc>https://example.com/app/users/a&#38;b</loc>');
+    expect(xml).not.toContain('/app/admin');
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<urlset')).toBe(true);
+  });
+
+  it('rejects unknown sources and params', async () => {
+    // @ts-expect-error - 'nope' is neither a route name nor a pattern
+    const paths = await generatePaths(routes, { nope: () => [{}] });
+    expect(paths.map((p) => p.path)).toEqual(['/app/', '/app/about', '/app/admin', '/app/docs']);
+
+    // @ts-expect-error - 'id' is not a param of the route
+    await expect(generatePaths(routes, { user: () => [{ id: '1' }] })).rejects.toThrow('Missing value for param "userId"');
+  });
+});
+
+describe('param constraints', () => {
+  const routes = createRoutes([
+    { path: '/posts/:id(\\d+)', name: 'post' },
+    '/posts/new',
+    '/:lang(en|fr|de)?/docs',
+    '/files/:path*',
+  ]);
+
+  it('checks params against their constraint', () => {
+    expect(routes.posts(42).toString()).toBe('/posts/42');
+    expect(getRouteByName(routes, 'post', { id: '7' }).toString()).toBe('/posts/7');
+    expect(routes('fr').docs.toString()).toBe('/fr/docs');
+    expect(() => routes.posts('abc' as never)).toThrow(RouteValidationError);
+    expect(() => getRouteByName(routes, 'post', { id: 'abc' as never })).toThrow('"abc" does not match (\\d+)');
+    expect(() => routes.posts(1).withParams({ id: 'x' as never }).toString()).toThrow(RouteValidationError);
+  });
+
+  it('reports the constrained pattern from every path', () => {
+    const patternOf = (build: () => unknown) => {
+      try {
+        build();
+      } catch (error) {
+        return (error as RouteValidationError).pattern;
+      }
+      return undefined;
+    };
+
+    expect(patternOf(() => routes.posts('abc' as never))).toBe('/posts/:id(\\d+)');
+    expect(patternOf(() => getRouteByName(routes, 'post', { id: 'abc' as never }))).toBe('/posts/:id(\\d+)');
+  });
+
+  it('only matches URLs the constraint allows', () => {
+    expect(matchRoute(routes, '/posts/12')).toMatchObject({ name: 'post', params: { id: '12' } });
+    expect(matchRoute(routes, '/posts/new')?.pattern).toBe('/posts/new');
+    expect(matchRoute(routes, '/posts/abc')).toBeNull();
+    expect(matchRoute(routes, '/de/docs')?.params).toEqual({ lang: 'de' });
+    expect(matchRoute(routes, '/es/docs')).toBeNull();
+  });
+
+  it('keeps or strips constraints in patterns', () => {
+    const post = routes.posts(1);
+
+    expect(post.toPattern()).toBe('/posts/:id(\\d+)');
+    expect(post.toPattern({ constraints: false })).toBe('/posts/:id');
+    expect(post.toPattern({ format: 'regex' })).toBe('^/posts/(?<id>(?:\\d+))/?$');
+    expect(post.toPattern({ format: 'urlpattern' })).toBe('/posts/:id(\\d+)');
+    expect(post.toPattern({ format: 'openapi' })).toBe('/posts/{id}');
+  });
+
+  it('rejects invalid and conflicting constraints', () => {
+    const strict = { validate: 'strict' } as const;
+
+    expect(() => createRoutes(['/a/:id([)'], strict)).toThrow('is not a valid regular expression');
+    expect(() => createRoutes(['/a/:id(\\d+)', '/a/:id([a-z]+)/b'], strict)).toThrow('Conflicting constraints for ":id"');
+    expect(() => createRoutes(['/a/:rest(\\d+)*'])).toThrow(RouteDefinitionError);
+  });
+
+  it('narrows param types', () => {
+    const post = routes.posts('12');
+    const lang = getRouteByName(createRoutes([{ path: '/:lang(en|fr)/home', name: 'home' }]), 'home', { lang: 'en' });
+    expect(`${post}${lang}`).toBe('/posts/12/en/home');
+
+    // @ts-expect-error - 'abc' is not numeric
+    expect(() => routes.posts('abc')).toThrow();
+    // @ts-expect-error - 'es' is not one of en|fr|de
+    expect(() => routes('es')).toThrow();
+
+    const match = matchRoute(routes, '/posts/3');
+    if (match?.name === 'post') {
+      const id: `${number}` = match.params.id;
+      expect(id).toBe('3');
+    }
+  });
+});
+
+describe('localized paths', () => {
+  const i18n = { locales: ['en', 'de', 'fr'], defaultLocale: 'en' } as const;
+  const routes = createRoutes(
+    [
+      '/',
+      { path: '/pricing', name: 'pricing', localizedPaths: { de: '/preise', fr: '/tarifs' } },
+      {
+        path: '/products/:id',
+        name: 'product',
+        localizedPaths: { de: '/produkte/:id' },
+        children: [{ path: 'reviews', name: 'reviews', localizedPaths: { de: 'bewertungen' } }],
+      },
+    ],
+    { i18n }
+  );
+
+  it('builds URLs in a locale', () => {
+    expect(routes.pricing.toString()).toBe('/en/pricing');
+    expect(routes.pricing.toString({ locale: 'de' })).toBe('/de/preise');
+    expect(routes.products('1').reviews.toString({ locale: 'de' })).toBe('/de/produkte/1/bewertungen');
+    expect(routes.products('1').toString({ locale: 'fr' })).toBe('/fr/products/1');
+    expect(routes.pricing.toPattern({ locale: 'fr' })).toBe('/fr/tarifs');
+    expect(routes.pricing.toPattern()).toBe('/pricing');
+    expect(() => routes.pricing.toString({ locale: 'es' })).toThrow(RouteArgumentError);
+  });
+
+  it('binds a tree to a locale', () => {
+    const de = withLocale(routes, 'de');
+
+    expect(de.pricing.toString()).toBe('/de/preise');
+    expect(getRouteByName(de, 'product', { id: 7 }).toString()).toBe('/de/produkte/7');
+    expect(de.$index.toString()).toBe('/de');
+    expect(de.pricing.toString({ locale: 'en' })).toBe('/en/pricing');
+  });
+
+  it('renders the root route as the bare locale prefix', () => {
+    const slashed = createRoutes(['/', '/pricing'], { i18n, trailingSlash: true });
+
+    expect(routes.$index.toString()).toBe('/en');
+    expect(routes.$index({ q: 'x' }).toString({ locale: 'de' })).toBe('/de?q=x');
+    expect(routes.$index.toPattern({ locale: 'fr' })).toBe('/fr');
+    expect(getAllRoutes(routes).filter((route) => !route.name).map((route) => route.pattern)).toEqual(['/en', '/de', '/fr']);
+    expect(slashed.$index.toString()).toBe('/en/');
+    expect(slashed.pricing.toString()).toBe('/en/pricing/');
+    expect(matchRoute(routes, '/de')?.pattern).toBe('/');
+  });
+
+  it('matches localized URLs', () => {
+    expect(matchRoute(routes, '/de/preise')).toMatchObject({ name: 'pricing', pattern: '/pricing', locale: 'de' });
+    expect(matchRoute(routes, '/de/produkte/3/bewertungen')).toMatchObject({ name: 'reviews', params: { id: '3' }, locale: 'de' });
+    expect(matchRoute(routes, '/fr/products/3')).toMatchObject({ name: 'product', locale: 'fr' });
+    expect(matchRoute(routes, '/de/pricing')).toBeNull();
+    expect(matchRoute(routes, '/pricing')).toBeNull();
+  });
+
+  it('leaves the default locale unprefixed with prefix: except-default', () => {
+    const unprefixed = createRoutes([{ path: '/pricing', localizedPaths: { de: '/preise' } }], {
+      i18n: { ...i18n, prefix: 'except-default' },
+    });
+
+    expect(unprefixed.pricing.toString()).toBe('/pricing');
+    expect(matchRoute(unprefixed, '/pricing')?.locale).toBe('en');
+    expect(matchRoute(unprefixed, '/de/preise')?.locale).toBe('de');
+  });
+
+  it('checks active nodes against URLs in their locale', () => {
+    const de = withLocale(routes, 'de');
+
+    expect(isActive(routes.pricing, routes.pricing.toString())).toBe(true);
+    expect(isActive(de.pricing, '/de/preise')).toBe(true);
+    expect(isActive(de.products('3'), '/de/produkte/3/bewertungen')).toBe(true);
+    expect(isActive(de.products('3'), '/de/produkte/3/bewertungen', { exact: true })).toBe(false);
+    expect(isActive(de.products.reviews, '/de/produkte/3/bewertungen')).toBe(true);
+    expect(isActive(de.pricing, '/en/pricing')).toBe(false);
+    expect(isActive(routes.pricing, '/pricing')).toBe(false);
+  });
+
+  it('lists every variant with hreflang alternates', () => {
+    const pricing = getAllRoutes(routes).filter((route) => route.name === 'pricing');
+
+    expect(pricing.map((route) => [route.locale, route.pattern])).toEqual([
+      ['en', '/en/pricing'],
+      ['de', '/de/preise'],
+      ['fr', '/fr/tarifs'],
+    ]);
+    expect(pricing[1]?.alternates).toEqual([
+      { hreflang: 'en', pattern: '/en/pricing' },
+      { hreflang: 'de', pattern: '/de/preise' },
+      { hreflang: 'fr', pattern: '/fr/tarifs' },
+      { hreflang: 'x-default', pattern: '/en/pricing' },
+    ]);
+    const nested = getAllRoutes(routes, { nested: true, format: 'next' }).find((route) => route.locale === 'de' && route.name === 'product');
+    expect(nested?.children?.[0]?.pattern).toBe('/de/produkte/[id]/bewertungen');
+  });
+
+  it('rejects localized paths with other params', () => {
+    expect(() =>
+      createRoutes([{ path: '/products/:id', localizedPaths: { de: '/produkte/:productId' } }], { i18n, validate: 'strict' })
+    ).toThrow('Localized path "/produkte/:productId" (de) must take the same params as "/products/:id"');
+  });
+});
+
+describe('aliases and redirects', () => {
+  const routes = createRoutes(
+    [
+      { path: '/users/:id', name: 'user', aliases: ['/members/:id'], children: [{ path: 'settings', aliases: ['prefs'] }] },
+      { path: '/blog', name: 'blog' },
+      { path: '/posts/:postId', name: 'post', params: { postId: (v: unknown) => Number(v) } },
+    ],
+    {
+      validate: 'strict',
+      redirects: [
+        { from: '/u/:id', to: 'user' },
+        { from: '/news', to: '/blog', status: 301 },
+        { from: '/p/:postId', to: 'post', status: 302 },
+      ],
+    }
+  );
+
+  it('matches aliases as their route', () => {
+    expect(matchRoute(routes, '/members/7')).toMatchObject({ name: 'user', pattern: '/users/:id', params: { id: '7' } });
+    expect(matchRoute(routes, '/users/7/prefs')?.pattern).toBe('/users/:id/settings');
+    expect(routes.users('7').toString()).toBe('/users/7');
+  });
+
+  it('resolves redirects to their target', () => {
+    const redirect = resolveRedirect(routes, '/u/42?tab=posts');
+
+    expect(redirect).toMatchObject({ name: 'user', pattern: '/users/:id', status: 308, location: '/users/42?tab=posts' });
+    if (redirect?.name === 'user') expect(redirect.node.toString()).toBe('/users/42?tab=posts');
+    expect(resolveRedirect(routes, '/news')).toMatchObject({ name: 'blog', status: 301, location: '/blog' });
+    expect(resolveRedirect(routes, '/p/5')?.location).toBe('/posts/5');
+    expect(resolveRedirect(routes, '/users/42')).toBeNull();
+  });
+
+  it('resolves redirects in the locale of the URL', () => {
+    const localized = createRoutes([{ path: '/products/:id', name: 'product', localizedPaths: { de: '/produkte/:id' } }], {
+      i18n: { locales: ['en', 'de'], defaultLocale: 'en' },
+      redirects: [{ from: '/old/:id', to: 'product' }],
+    });
+
+    expect(resolveRedirect(localized, '/en/old/5')?.location).toBe('/en/products/5');
+    const redirect = resolveRedirect(localized, '/de/old/5?ref=x');
+    expect(redirect?.location).toBe('/de/produkte/5?ref=x');
+    expect(redirect?.node.toString()).toBe('/de/produkte/5?ref=x');
+    expect(redirect?.node.withParams({ id: '6' }).toString()).toBe('/de/produkte/6?ref=x');
+    expect(resolveRedirect(localized, '/old/5')).toBeNull();
+  });
+
+  it('lists aliases in getAllRoutes()', () => {
+    const [user, settings] = getAllRoutes(routes);
+
+    expect(user?.aliases).toEqual(['/members/:id']);
+    expect(settings?.aliases).toEqual(['/users/:id/prefs']);
+    expect(getAllRoutes(routes, { format: 'openapi' })[0]?.aliases).toEqual(['/members/{id}']);
+    expect(toVueRouterRecords(routes)[0]?.children?.[0]?.alias).toEqual(['/members/:id']);
+  });
+
+  it('rejects invalid aliases and redirects', () => {
+    const strict = { validate: 'strict' } as const;
+
+    expect(() => createRoutes([{ path: '/users/:id', aliases: ['/members/:userId'] }], strict)).toThrow(
+      'Alias "/members/:userId" must take the same params as "/users/:id"'
+    );
+    expect(() => createRoutes(['/users/:id'], { ...strict, redirects: [{ from: '/u', to: '/users/:id' }] })).toThrow(
+      'Redirect from "/u" is missing param "id" of "/users/:id"'
+    );
+    // @ts-expect-error - 'nope' is not a route name or pattern
+    expect(() => createRoutes(['/about'], { ...strict, redirects: [{ from: '/old', to: 'nope' }] })).toThrow(RouteDefinitionError);
+  });
+});
+
+describe('typed meta', () => {
+  it('types getMeta() from the definition', () => {
+    const routes = createRoutes([
+      { path: '/', meta: { isHome: true } },
+      { path: '/admin', name: 'admin', meta: { requiresAuth: true, roles: ['staff'] } },
+      { path: '/users/:id', meta: { section: 'users' }, children: [{ path: 'edit', meta: { title: 'Edit' } }] },
+      '/about',
+    ]);
+
+    const requiresAuth: true | undefined = routes.admin.getMeta().requiresAuth;
+    const section: 'users' = routes.users('1').edit.getMeta().section;
+    const isHome: true = routes.$index.getMeta().isHome;
+    const about: undefined = routes.about.getMeta();
+    expect([requiresAuth, section, isHome, about]).toEqual([true, 'users', true, undefined]);
+    expect(getRouteByName(routes, 'admin').getMeta().roles).toEqual(['staff']);
+
+    const match = matchRoute(routes, '/users/1/edit');
+    if (match?.pattern === '/users/:id/edit') expect(match.meta.title).toBe('Edit');
+    const [, admin] = getAllRoutes(routes);
+    if (admin?.name === 'admin') expect(admin.meta?.requiresAuth).toBe(true);
+  });
+
+  const metaSchema = (meta: { title?: string; requiresAuth?: boolean }) => {
+    if (meta.requiresAuth !== undefined && typeof meta.requiresAuth !== 'boolean') throw new Error('requiresAuth must be a boolean');
+    return { title: meta.title ?? 'Untitled', requiresAuth: meta.requiresAuth ?? false };
+  };
+
+  it('validates meta and fills in defaults with metaSchema', () => {
+    const routes = createRoutes(
+      [
+        '/',
+        { path: '/admin', name: 'admin', meta: { requiresAuth: true }, children: [{ path: 'users', meta: { title: 'Users' } }] },
+      ],
+      { metaSchema }
+    );
+
+    expect(routes.$index.getMeta()).toEqual({ title: 'Untitled', requiresAuth: false });
+    expect(routes.admin.users.getMeta()).toEqual({ title: 'Users', requiresAuth: true });
+    const title: string = getRouteByName(routes, 'admin').getMeta().title;
+    const requiresAuth: true = routes.admin.getMeta().requiresAuth;
+    expect([title, requiresAuth]).toEqual(['Untitled', true]);
+    expect(getAllRoutes(routes).map((route) => route.meta?.requiresAuth)).toEqual([false, true, true]);
+  });
+
+  it('rejects meta the schema rejects', () => {
+    // @ts-expect-error - requiresAuth must be a boolean
+    expect(() => createRoutes([{ path: '/admin', meta: { requiresAuth: 'yes' } }], { metaSchema })).toThrow(
+      'Invalid meta for "/admin": requiresAuth must be a boolean'
+    );
+    expect(() => createRoutes([{ path: '/admin', meta: { requiresAuth: 'yes' as never } }], { metaSchema })).toThrow(RouteDefinitionError);
+  });
+});
+
+describe('cached route nodes', () => {
+  const routes = createRoutes(
+    [
+      '/',
+      '/settings/account',
+      { path: '/users/:userId/posts/:postId', name: 'post' },
+      { path: '/docs/:version?/guides/:slug', name: 'guide', localizedPaths: { de: '/dokumente/:version?/anleitungen/:slug' } },
+    ],
+    { i18n: { locales: ['en', 'de'], defaultLocale: 'en', prefix: 'except-default' } }
+  );
+
+  it('reuses static nodes and their children', () => {
+    const user = routes.users('1');
+    expect(routes.settings === routes.settings).toBe(true);
+    expect(routes.settings.account === routes.settings.account).toBe(true);
+    expect(routes.$index === routes.$index).toBe(true);
+    expect(user.posts === user.posts).toBe(true);
+    expect(routes.users('1') === user).toBe(false);
+    expect(routes.settings.account.toString()).toBe('/settings/account');
+    expect(routes.settings.account.toString({ locale: 'de' })).toBe('/de/settings/account');
+    expect(routes.settings.account.toString()).toBe('/settings/account');
+  });
+
+  it('builds the same paths from proxies and named routes', () => {
+    const post = routes.users('a b').posts(7);
+    expect(post.toString()).toBe('/users/a%20b/posts/7');
+    expect(getRouteByName(routes, 'post', { userId: 'a b', postId: '7' }).toString()).toBe(post.toString());
+
+    expect(routes.docs.guides('intro').toString()).toBe('/docs/guides/intro');
+    expect(routes.docs('v2').guides('intro').toString({ locale: 'de' })).toBe('/de/dokumente/v2/anleitungen/intro');
+    expect(getRouteByName(routes, 'guide', { slug: 'intro' }).toString({ locale: 'de' })).toBe('/de/dokumente/anleitungen/intro');
+  });
+});
+
+describe('matchRoute', () => {
+  it('matches static routes', () => {
+    const routes = createRoutes(['/', '/about']);
+
+    expect(matchRoute(routes, '/about')).toEqual({
+      name: undefined,
+      pattern: '/about',
+      params: {},
+      query: {},
+      meta: undefined,
+    });
+    expect(matchRoute(routes, '/')?.pattern).toBe('/');
+  });
+
+  it('treats segments named after Object.prototype members as plain segments', () => {
+    const routes = createRoutes(['/about', '/users/:id', '/constructor/:id']);
+
+    expect(matchRoute(routes, '/toString/x')).toBeNull();
+    expect(matchRoute(routes, '/__proto__/x')).toBeNull();
+    expect(matchRoute(routes, '/users/constructor')?.params).toEqual({ id: 'constructor' });
+    expect(matchRoute(routes, '/constructor/x')?.pattern).toBe('/constructor/:id');
+  });
+
+  it('extracts params and query', () => {
+    const routes = createRoutes([{ path: '/users/:userId/posts/:postId', name: 'post', meta: { auth: true } }]);
+
+    expect(matchRoute(routes, '/users/abc/posts/42?edit=true')).toEqual({
+      name: 'post',
+      pattern: '/users/:userId/posts/:postId',
+      params: { userId: 'abc', postId: '42' },
+      query: { edit: 'true' },
+      meta: { auth: true },
+    });
+  });
+
+  it('runs param and query parsers', () => {
+    const routes = createRoutes([
+      {
+        path: '/posts/:postId' as const,
+        params: { postId: (v: unknown) => Number(v) },
+        query: { page: (v: unknown) => Number(v) },
+      },
+    ]);
+
+    const match = matchRoute(routes, '/posts/7?page=2');
+
+    expect(match?.params).toEqual({ postId: 7 });
+    expect(match?.query).toEqual({ page: 2 });
+  });
+
+  it('prefers static segments over params', () => {
+    const routes = createRoutes(['/posts/new', '/posts/:postId']);
+
+    expect(matchRoute(routes, '/posts/new')?.pattern).toBe('/posts/new');
+    expect(matchRoute(routes, '/posts/123')?.pattern).toBe('/posts/:postId');
+  });
+
+  it('falls back to params when the static branch has no match', () => {
+    const routes = createRoutes(['/users/settings', '/users/:userId/posts']);
+
+    expect(matchRoute(routes, '/users/settings/posts')?.params).toEqual({ userId: 'settings' });
+  });
+
+  it('skips candidates whose parsers throw', () => {
+    const routes = createRoutes([
+      {
+        path: '/posts/:postId' as const,
+        params: {
+          postId: (v: unknown) => {
+            if (isNaN(Number(v))) throw new Error('Invalid number');
+            return Number(v);
+          },
+        },
+      },
+    ]);
+
+    expect(matchRoute(routes, '/posts/abc')).toBeNull();
+  });
+
+  it('returns null for intermediate and unknown paths', () => {
+    const routes = createRoutes(['/users/:userId/posts/:postId']);
+
+    expect(matchRoute(routes, '/users/abc')).toBeNull();
+    expect(matchRoute(routes, '/unknown')).toBeNull();
+  });
+
+  it('accepts absolute URLs, URL objects and trailing slashes', () => {
+    const routes = createRoutes(['/users/:userId']);
+
+    expect(matchRoute(routes, 'https://example.com/users/a%20b')?.params).toEqual({ userId: 'a b' });
+    expect(matchRoute(routes, new URL('https://example.com/users/abc/'))?.params).toEqual({ userId: 'abc' });
+  });
+
+  it('narrows the result by pattern', () => {
+    const routes = createRoutes([{ path: '/users/:userId', name: 'user' }, '/about']);
+
+    const match = matchRoute(routes, '/users/abc');
+
+    if (match?.name === 'user') {
+      const userId: string = match.params.userId;
+      expect(userId).toBe('abc');
+    } else {
+      expect.unreachable();
+    }
+  });
+});
+
 describe('parsers', () => {
   describe('function parser', () => {
     it('transforms param values', () => {
@@ -348,6 +1926,124 @@ describe('parsers', () => {
     });
   });
 
+  describe('Standard Schema parser', () => {
+    /** A minimal Standard Schema that accepts digit strings and numbers */
+    const numberSchema = (options: { async?: boolean } = {}): StandardSchemaV1<string | number, number> => ({
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => {
+          const result = /^\d+$/.test(String(value))
+            ? { value: Number(value) }
+            : { issues: [{ message: 'Expected a number', path: ['id'] }] };
+          return options.async ? Promise.resolve(result) : result;
+        },
+      },
+    });
+
+    it('uses ~standard.validate() before other parser styles', () => {
+      const schema = Object.assign(numberSchema(), { parse: () => 0 });
+      const routes = createRoutes([{ path: '/users/:id', params: { id: schema }, name: 'user' }]);
+
+      expect(routes.users('42').toString()).toBe('/users/42');
+      expect(getRouteByName(routes, 'user', { id: 7 }).toString()).toBe('/users/7');
+      expect(matchRoute(routes, '/users/42')?.params.id).toBe(42);
+    });
+
+    it('supports callable schemas', () => {
+      const schema = Object.assign((v: unknown) => v, numberSchema());
+      const routes = createRoutes([{ path: '/users/:id', params: { id: schema } }]);
+
+      expect(routes.users('0042').toString()).toBe('/users/42');
+    });
+
+    it('surfaces the schema issues', () => {
+      const routes = createRoutes([{ path: '/users/:id', params: { id: numberSchema() } }]);
+
+      expect(() => routes.users('abc')).toThrow('Invalid param "id" for "/users/:id": id: Expected a number');
+      try {
+        routes.users('abc');
+      } catch (error) {
+        expect((error as RouteValidationError).issues).toEqual([{ message: 'Expected a number', path: ['id'] }]);
+        expect((error as RouteValidationError).cause).toBeInstanceOf(SchemaValidationError);
+      }
+    });
+
+    it('infers input and output types', () => {
+      const routes = createRoutes([{ path: '/users/:id', params: { id: numberSchema() } }]);
+
+      // @ts-expect-error - boolean is not a valid input
+      expect(() => routes.users(true)).toThrow();
+      const match = matchRoute(routes, '/users/1');
+      if (match) {
+        const id: number = match.params.id;
+        expect(id).toBe(1);
+      }
+    });
+  });
+
+  describe('async parsers', () => {
+    const asyncNumber: StandardSchemaV1<string | number, number> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: async (value) =>
+          /^\d+$/.test(String(value)) ? { value: Number(value) } : { issues: [{ message: 'Expected a number' }] },
+      },
+    };
+    const routes = createRoutes([
+      {
+        path: '/users/:id',
+        name: 'user',
+        params: { id: asyncNumber },
+        query: { page: asyncNumber },
+        children: ['posts'],
+      },
+    ]);
+
+    it('defers async validation to toStringAsync()', async () => {
+      const node = routes.users('007', { page: '02' });
+
+      expect(() => node.toString()).toThrow('Use toStringAsync()');
+      await expect(node.toStringAsync()).resolves.toBe('/users/7?page=2');
+      await expect(node.posts.toStringAsync()).resolves.toBe('/users/7/posts');
+    });
+
+    it('rejects when async validation fails', async () => {
+      await expect(routes.users('abc').toStringAsync()).rejects.toThrow(RouteValidationError);
+    });
+
+    it('resolves named routes with resolveRoute()', async () => {
+      const node = await resolveRoute(routes, 'user', { id: '01' }, { page: '3' });
+
+      expect(node.toString()).toBe('/users/1?page=3');
+      expect(() => getRouteByName(routes, 'user', { id: '01' })).toThrow('resolveRoute()');
+    });
+
+    it('awaits .parseAsync() when present', async () => {
+      const parser = { parse: () => 0, parseAsync: async (v: unknown) => Number(v) + 1 };
+      const custom = createRoutes([{ path: '/items/:id', params: { id: parser }, name: 'item' }]);
+
+      expect((await resolveRoute(custom, 'item', { id: 1 })).toString()).toBe('/items/2');
+    });
+
+    it('matches URLs with matchRouteAsync()', async () => {
+      expect(() => matchRoute(routes, '/users/007?page=2')).toThrow(AsyncParserError);
+      await expect(matchRouteAsync(routes, '/users/007?page=2')).resolves.toMatchObject({
+        name: 'user',
+        params: { id: 7 },
+        query: { page: 2 },
+      });
+      await expect(matchRouteAsync(routes, '/users/abc')).resolves.toBeNull();
+    });
+
+    it('resolves synchronous nodes as is', async () => {
+      const plain = createRoutes(['/about']);
+
+      await expect(plain.about.toStringAsync()).resolves.toBe('/about');
+    });
+  });
+
   describe('query parser', () => {
     it('validates query parameters', () => {
       const routes = createRoutes([
@@ -26,51 +26,272 @@
  * ```
  */
 
-import { runParser, createObjectParser } from './parser.js';
+import { encode, decode, encodeHash } from './encoding.js';
+import {
+  AsyncParserError,
+  RouteArgumentError,
+  RouteDefinitionError,
+  RouteNotFoundError,
+  RoutishError,
+  RouteValidationError,
+  UndefinedRouteError,
+  type DefinitionIssue,
+} from './errors.js';
+import { localeAlternates, localizedPattern, prefixLocale, resolveLocale, stripLocale } from './locale.js';
+import { runParser, runParserAsync, createObjectParser, type ParseContext } from './parser.js';
+import { compilePath, convertPattern, formatConstraint, matchesConstraint, normalizePattern, parsePattern, renderPath } from './pattern.js';
+import { createQuerySerializer, resolveQuerySerializer } from './query.js';
+import { validateDefinitions } from './validation.js';
 import {
   ROUTE_METADATA,
   type ExtractNames,
+  type GetAllRoutesOptions,
+  type GetRouteByNameNode,
   type GetRouteByNameParams,
   type GetRouteByNameQuery,
+  type ComparableNode,
+  type CreateRoutesOptions,
+  type HandlerContext,
+  type HandlerOutcome,
+  type PathSources,
+  type RouteHandlers,
+  type GeneratedPath,
+  type GeneratePathsOptions,
+  type HandlerMap,
+  type HashConfig,
+  type IsActiveOptions,
+  type LocaleAlternate,
+  type LocaleOptions,
   type Meta,
-  type NamedRoute,
+  type MetaInput,
+  type MountDefinitions,
   type Parser,
   type ParserMap,
+  type PatternFormat,
+  type PatternOptions,
+  type PatternSegment,
+  type QueryFormat,
   type QueryParams,
+  type QuerySerializer,
+  type RedirectConfig,
+  type RedirectRecord,
+  type RedirectResult,
+  type RedirectStatus,
   type RouteConfig,
   type RouteDefinition,
   type RouteInfo,
+  type RouteInfoOf,
+  type RouteMatch,
+  type RouteMetadata,
   type RouteNode,
+  type RouteRecord,
   type RouteTree,
   type RoutishOptions,
+  type SafeResult,
   type Segment,
+  type StandardSchemaIssue,
+  type StandardSchemaV1,
+  type ToStringOptions,
   type TreeNode,
   type ValidateDefinitions,
+  type ValidateMerge,
+  type WithMetaSchema,
 } from './types.js';
 
 // ============================================
 // Public API
 // ============================================
 
-export { createRoutes, getRouteByName, getAllRoutes };
-export type { RouteNode, RouteDefinition, RouteConfig, RouteInfo, RoutishOptions, Parser, ParserMap };
+export {
+  createRoutes,
+  mountRoutes,
+  mergeRoutes,
+  withLocale,
+  getRouteByName,
+  safeGetRouteByName,
+  resolveRoute,
+  getAllRoutes,
+  matchRoute,
+  matchRouteAsync,
+  resolveRedirect,
+  isActive,
+  isAncestorOf,
+  generatePaths,
+  createHandlerMap,
+  encode,
+  decode,
+  createQuerySerializer,
+};
+export type {
+  GetAllRoutesOptions,
+  ComparableNode,
+  CreateRoutesOptions,
+  GeneratedPath,
+  GeneratePathsOptions,
+  HandlerContext,
+  HandlerMap,
+  HandlerOutcome,
+  HashConfig,
+  IsActiveOptions,
+  LocaleAlternate,
+  LocaleOptions,
+  RouteNode,
+  RouteDefinition,
+  RouteConfig,
+  RouteInfo,
+  RouteInfoOf,
+  RouteHandlers,
+  RouteMatch,
+  RoutishOptions,
+  Parser,
+  ParserMap,
+  PatternFormat,
+  PatternOptions,
+  PathSources,
+  QueryFormat,
+  QuerySerializer,
+  RedirectConfig,
+  RedirectResult,
+  RedirectStatus,
+  SafeResult,
+  StandardSchemaIssue,
+  StandardSchemaV1,
+  ToStringOptions,
+};
+export type { QuerySerializerOptions } from './query.js';
+export { toReactRouterObjects, toVueRouterRecords, toTanStackRouteConfigs } from './adapters.js';
+export type {
+  AdapterOptions,
+  ReactRouterEntry,
+  ReactRouterLoaderArgs,
+  ReactRouterObject,
+  RouterEntries,
+  TanStackRouteConfig,
+  VueRouteLocation,
+  VueRouteRecord,
+  VueRouterEntry,
+} from './adapters.js';
+export { toNodeHandler, toExpressHandler, toFetchHandler } from './server.js';
+export type { ExpressRequest, ExpressResponse, NodeHandlerOptions, NodeRequest, NodeResponse } from './server.js';
+export { renderSitemap } from './sitemap.js';
+export type { SitemapOptions } from './sitemap.js';
+export {
+  RoutishError,
+  RouteDefinitionError,
+  RouteValidationError,
+  RouteNotFoundError,
+  UndefinedRouteError,
+  RouteArgumentError,
+  SchemaValidationError,
+  AsyncParserError,
+} from './errors.js';
+export type { DefinitionIssue, DefinitionIssueCode, ValidationKind } from './errors.js';
 
 // ============================================
 // Main Implementation
 // ============================================
 
-function createRoutes<const T extends readonly RouteDefinition[]>(
-  definitions: T & ValidateDefinitions<T>,
-  options: RoutishOptions = {}
-): RouteTree<T> {
-  const defArray = [...definitions] as RouteDefinition[];
-  const tree = buildTree(defArray);
-  const namedRoutes = buildNamedRoutes(defArray, options);
-  const allRoutes = buildAllRoutes(defArray);
+function createRoutes<const T extends readonly RouteDefinition[], S extends Parser<any, any> | undefined = undefined>(
+  definitions: T & ValidateDefinitions<T, '', MetaInput<S>>,
+  options: CreateRoutesOptions<T, S> = {}
+): RouteTree<WithMetaSchema<T, S>> {
+  const { metaSchema } = options;
+  const parsed = metaSchema ? applyMetaSchema(definitions, metaSchema) : definitions;
+  return buildRoutes(parsed, options as RoutishOptions) as RouteTree<WithMetaSchema<T, S>>;
+}
 
-  const proxy = createRootProxy(tree, options, { definitions, namedRoutes, allRoutes });
+/**
+ * Prefix every route of a tree, e.g. to mount a feature module under `/admin`.
+ */
+function mountRoutes<const P extends string, T extends readonly RouteDefinition[]>(
+  prefix: P,
+  routes: RouteTree<T>
+): RouteTree<MountDefinitions<P, T>> {
+  const { definitions, options } = routes[ROUTE_METADATA];
+  const redirects = options.redirects?.map((redirect) => ({
+    ...redirect,
+    from: joinPath(prefix, redirect.from),
+    to: redirect.to.startsWith('/') ? joinPath(prefix, redirect.to) : redirect.to,
+  }));
+  const mounted = definitions.map((def) => mountDefinition(prefix, def));
+  return buildRoutes(mounted, redirects ? { ...options, redirects } : options) as RouteTree<MountDefinitions<P, T>>;
+}
+
+/**
+ * Combine two route trees into one. The merged tree uses the options of the first,
+ * with the redirects of both.
+ * Throws (and fails to type-check) when route names collide or patterns overlap.
+ */
+function mergeRoutes<A extends readonly RouteDefinition[], B extends readonly RouteDefinition[]>(
+  a: RouteTree<A>,
+  b: RouteTree<B> & ValidateMerge<A, B>
+): RouteTree<readonly [...A, ...B]> {
+  const left = a[ROUTE_METADATA];
+  const right = b[ROUTE_METADATA];
+
+  const issues: DefinitionIssue[] = [];
+  for (const [name, route] of right.namedRoutes) {
+    const existing = left.namedRoutes.get(name);
+    if (existing) {
+      issues.push({
+        code: 'duplicate-name',
+        message: `Cannot merge routes: duplicate route name "${name}"`,
+        patterns: [existing.pattern, route.pattern],
+      });
+    }
+  }
+  const patterns = new Map(left.allRoutes.map((route) => [normalizePattern(route.pattern), route.pattern]));
+  for (const route of right.allRoutes) {
+    const existing = patterns.get(normalizePattern(route.pattern));
+    if (existing !== undefined) {
+      issues.push({
+        code: 'duplicate-pattern',
+        message: `Cannot merge routes: "${route.pattern}" overlaps "${existing}"`,
+        patterns: [existing, route.pattern],
+      });
+    }
+  }
+  if (issues.length > 0) throw new RouteDefinitionError(issues);
 
-  return proxy as RouteTree<T>;
+  const redirects = [...(left.options.redirects ?? []), ...(right.options.redirects ?? [])];
+  return buildRoutes([...left.definitions, ...right.definitions], { ...left.options, redirects }) as RouteTree<readonly [...A, ...B]>;
+}
+
+/**
+ * The same routes, building URLs in `locale`: nodes, `getRouteByName()` and
+ * `generatePaths()` of the returned tree use the routes' localized paths.
+ */
+function withLocale<T extends readonly RouteDefinition[]>(routes: RouteTree<T>, locale: string): RouteTree<T> {
+  const { definitions, options } = routes[ROUTE_METADATA];
+  return buildRoutes(definitions, { ...options, locale }) as RouteTree<T>;
+}
+
+function buildRoutes(definitions: readonly RouteDefinition[], options: RoutishOptions): unknown {
+  const resolved = resolveDefinitions(definitions, null);
+  const flat = flattenDefinitions(resolved);
+  if (options.validate !== 'off') validateDefinitions(flat, options.validate ?? 'warn', options.redirects);
+  const tree = createTreeNode('/');
+  const records = flat.map((def) => createRouteRecord(def, options, tree));
+  buildTree(tree, flat, records);
+  const localeTrees = buildLocaleTrees(flat, records, options.i18n);
+  const aliasTree = buildAliasTree(flat, records);
+  const namedRoutes = buildNamedRoutes(records);
+  const redirects = buildRedirects(options.redirects ?? [], namedRoutes, records);
+  const allRoutes = flat.map(toRouteInfo);
+  const nestedRoutes = buildNestedRoutes(resolved);
+
+  return createRootProxy(tree, options, {
+    definitions,
+    options,
+    tree,
+    namedRoutes,
+    localeTrees,
+    aliasTree,
+    redirects,
+    records,
+    allRoutes,
+    nestedRoutes,
+  });
 }
 
 // ============================================
@@ -85,295 +306,1364 @@ function getRouteByName<T extends readonly RouteDefinition[], N extends ExtractN
   name: N,
   params?: GetRouteByNameParams<T, N>,
   query?: GetRouteByNameQuery<T, N>
-): RouteNode {
-  const metadata = routes[ROUTE_METADATA];
-  const route = metadata.namedRoutes.get(name as string);
+): GetRouteByNameNode<T, N> {
+  const route = findNamedRoute(routes[ROUTE_METADATA], name);
+  let resolvedParams: Record<string, unknown> = (params as Record<string, unknown>) ?? {};
+  let resolvedQuery: QueryParams | undefined = query as QueryParams | undefined;
 
-  if (!route) {
-    throw new Error(`Route "${name}" not found`);
+  if (route.paramParser) {
+    resolvedParams = { ...resolvedParams, ...(runParser(route.paramParser, resolvedParams) as Record<string, unknown>) };
+  }
+  if (resolvedQuery && route.queryParser) {
+    resolvedQuery = runParser(route.queryParser, resolvedQuery) as QueryParams;
   }
 
+  return createNamedNode(route, resolvedParams, resolvedQuery) as GetRouteByNameNode<T, N>;
+}
+
+/**
+ * Async variant of getRouteByName for parsers that validate asynchronously
+ */
+async function resolveRoute<T extends readonly RouteDefinition[], N extends ExtractNames<T>>(
+  routes: RouteTree<T>,
+  name: N,
+  params?: GetRouteByNameParams<T, N>,
+  query?: GetRouteByNameQuery<T, N>
+): Promise<GetRouteByNameNode<T, N>> {
+  const route = findNamedRoute(routes[ROUTE_METADATA], name);
   let resolvedParams: Record<string, unknown> = (params as Record<string, unknown>) ?? {};
   let resolvedQuery: QueryParams | undefined = query as QueryParams | undefined;
 
   if (route.paramParser) {
-    resolvedParams = runParser(route.paramParser, resolvedParams) as Record<string, unknown>;
+    resolvedParams = { ...resolvedParams, ...((await runParserAsync(route.paramParser, resolvedParams)) as Record<string, unknown>) };
   }
   if (resolvedQuery && route.queryParser) {
-    resolvedQuery = runParser(route.queryParser, resolvedQuery) as QueryParams;
+    resolvedQuery = (await runParserAsync(route.queryParser, resolvedQuery)) as QueryParams;
   }
 
-  let path = route.pattern;
-  for (const p of route.paramNames) {
-    path = path.replace(`:${p}`, String(resolvedParams[p]));
+  return createNamedNode(route, resolvedParams, resolvedQuery) as GetRouteByNameNode<T, N>;
+}
+
+/**
+ * Like getRouteByName, but returns routish errors instead of throwing them
+ */
+function safeGetRouteByName<T extends readonly RouteDefinition[], N extends ExtractNames<T>>(
+  routes: RouteTree<T>,
+  name: N,
+  params?: GetRouteByNameParams<T, N>,
+  query?: GetRouteByNameQuery<T, N>
+): SafeResult<GetRouteByNameNode<T, N>> {
+  return safely(() => getRouteByName(routes, name, params, query));
+}
+
+/** Run `fn`, returning a thrown RoutishError as a failed result */
+function safely<T>(fn: () => T): SafeResult<T> {
+  try {
+    return { success: true, data: fn() };
+  } catch (error) {
+    if (error instanceof RoutishError) return { success: false, error };
+    throw error;
   }
+}
+
+function findNamedRoute(metadata: RouteMetadata, name: string): RouteRecord {
+  const route = metadata.namedRoutes.get(name);
+  if (!route) {
+    throw new RouteNotFoundError(name);
+  }
+  return route;
+}
 
-  if (route.options.trailingSlash && !path.endsWith('/')) {
-    path += '/';
+/** Create the node for a named route from already parsed params */
+function createNamedNode(
+  route: RouteRecord,
+  params: Record<string, unknown>,
+  query: QueryParams | undefined,
+  hash?: string,
+  options: RoutishOptions = route.options
+): RouteNode {
+  const segments: Segment[] = [];
+  for (const seg of route.segments) {
+    const value = seg.type === 'static' ? undefined : params[seg.name];
+    if (seg.type === 'static') {
+      segments.push(seg);
+    } else if (seg.type === 'splat') {
+      segments.push({ type: 'splat', name: seg.name, value: requireSplatValue(value, route.pattern, seg.name) });
+    } else if (value !== undefined) {
+      if (seg.constraint) assertConstraint({ pattern: route.pattern, kind: 'param', key: seg.name }, seg.constraint, String(value));
+      segments.push({ type: 'param', name: seg.name, value: String(value) });
+    } else if (!seg.optional) {
+      throw new RouteArgumentError(route.pattern, `Missing value for param "${seg.name}" in "${route.pattern}"`);
+    }
   }
 
-  if (resolvedQuery && Object.keys(resolvedQuery).length > 0) {
-    path += '?' + new URLSearchParams(Object.entries(resolvedQuery).map(([k, v]) => [k, String(v)])).toString();
+  return createRouteNode(segments, query, route, options, route.pattern, hash);
+}
+
+/**
+ * Get all route definitions, flattened with absolute patterns.
+ * Pass `{ nested: true }` to keep the `children` structure, and `format` for another pattern dialect.
+ * With the `i18n` option, every route is listed once per locale with its `hreflang` alternates.
+ */
+function getAllRoutes<T extends readonly RouteDefinition[]>(
+  routes: RouteTree<T>,
+  options: GetAllRoutesOptions = {}
+): RouteInfoOf<T>[] {
+  const metadata = routes[ROUTE_METADATA];
+  const { i18n } = metadata.options;
+  const defined = options.nested ? metadata.nestedRoutes : metadata.allRoutes;
+  const infos = i18n ? localizeRouteInfos(defined, metadata.records, i18n) : defined;
+  const { format } = options;
+  return (format ? infos.map((info) => convertRouteInfo(info, format)) : infos) as RouteInfoOf<T>[];
+}
+
+/** Each route info once per locale, with its localized pattern */
+function localizeRouteInfos(infos: RouteInfo[], records: RouteRecord[], i18n: LocaleOptions): RouteInfo[] {
+  const byPattern = new Map(records.map((route) => [route.pattern, route]));
+  const localize = (info: RouteInfo, locale: string): RouteInfo => {
+    const route = byPattern.get(info.pattern)!;
+    const localized: RouteInfo = {
+      ...info,
+      pattern: prefixLocale(i18n, locale, localizedPattern(route, locale)),
+      locale,
+      alternates: localeAlternates(route, i18n),
+    };
+    return info.children ? { ...localized, children: info.children.map((child) => localize(child, locale)) } : localized;
+  };
+  return infos.flatMap((info) => i18n.locales.map((locale) => localize(info, locale)));
+}
+
+/**
+ * Build every concrete path of the routes. Routes without params yield their one
+ * path; others yield one per params object from their source, keyed by route name
+ * or pattern, validated by the route's param parsers. Routes with required params
+ * and no source are left out and reported to `onSkip`.
+ */
+async function generatePaths<T extends readonly RouteDefinition[]>(
+  routes: RouteTree<T>,
+  sources: PathSources<T> = {},
+  options: GeneratePathsOptions = {}
+): Promise<GeneratedPath[]> {
+  const bySource = sources as Partial<Record<string, () => Iterable<object> | AsyncIterable<object> | Promise<Iterable<object>>>>;
+  const paths: GeneratedPath[] = [];
+
+  for (const route of routes[ROUTE_METADATA].records) {
+    const source = (route.name === undefined ? undefined : bySource[route.name]) ?? bySource[route.pattern];
+    if (source) {
+      for await (const params of await source()) {
+        paths.push(await generatePath(route, params as Record<string, unknown>));
+      }
+    } else if (route.segments.some((seg) => seg.type === 'splat' || (seg.type === 'param' && !seg.optional))) {
+      options.onSkip?.({ pattern: route.pattern, name: route.name });
+    } else {
+      paths.push(await generatePath(route, {}));
+    }
   }
+  return paths;
+}
 
+async function generatePath(route: RouteRecord, params: Record<string, unknown>): Promise<GeneratedPath> {
+  const parsed = route.paramParser
+    ? { ...params, ...((await runParserAsync(route.paramParser, params)) as Record<string, unknown>) }
+    : params;
   return {
-    __segments: [],
-    __query: resolvedQuery,
-    getMeta: () => route.meta ?? undefined,
-    toString: () => path,
-    toPattern: () => route.pattern,
+    path: createNamedNode(route, parsed, undefined).toString(),
+    pattern: route.pattern,
+    name: route.name,
+    params,
+    meta: route.meta ?? undefined,
   };
 }
 
+function convertRouteInfo(info: RouteInfo, format: PatternFormat): RouteInfo {
+  const converted: RouteInfo = { ...info, pattern: convertPattern(info.pattern, format) };
+  if (info.aliases) converted.aliases = info.aliases.map((alias) => convertPattern(alias, format));
+  if (info.alternates) {
+    converted.alternates = info.alternates.map((alternate) => ({ ...alternate, pattern: convertPattern(alternate.pattern, format) }));
+  }
+  return info.children ? { ...converted, children: info.children.map((child) => convertRouteInfo(child, format)) } : converted;
+}
+
 /**
- * Get all route definitions
+ * Match a URL against the route tree. Static segments are tried before params,
+ * and candidates whose param or query parsers throw are skipped.
+ * Returns null when no defined route matches. Throws an AsyncParserError when a
+ * candidate's parser validates asynchronously; use matchRouteAsync() for those.
  */
-function getAllRoutes<T extends readonly RouteDefinition[]>(routes: RouteTree<T>): RouteInfo[] {
-  return routes[ROUTE_METADATA].allRoutes;
+function matchRoute<T extends readonly RouteDefinition[]>(routes: RouteTree<T>, url: string | URL): RouteMatch<T> | null {
+  return matchUrl(routes[ROUTE_METADATA], url, []) as RouteMatch<T> | null;
 }
 
-// ============================================
-// Tree Building
-// ============================================
+/** Like matchRoute(), but awaits parsers that validate asynchronously */
+async function matchRouteAsync<T extends readonly RouteDefinition[]>(
+  routes: RouteTree<T>,
+  url: string | URL
+): Promise<RouteMatch<T> | null> {
+  return (await matchUrlAsync(routes[ROUTE_METADATA], url, [])) as RouteMatch<T> | null;
+}
 
-function buildTree(definitions: RouteDefinition[]): TreeNode {
-  const root: TreeNode = { children: {}, paramName: null, paramParser: null, queryParser: null, meta: null, isTerminal: false };
+/**
+ * Find the redirect for a URL. Its params fill in the target route's and its query
+ * is carried over. Returns null when no redirect matches or the target's param
+ * parsers reject the params.
+ */
+function resolveRedirect<T extends readonly RouteDefinition[]>(routes: RouteTree<T>, url: string | URL): RedirectResult<T> | null {
+  const { options, redirects } = routes[ROUTE_METADATA];
+  const { pathname, search } = typeof url === 'string' ? new URL(url, MATCH_BASE_URL) : url;
+  const resolved = resolvePath(pathname, options);
+  if (!resolved) return null;
 
-  for (const def of definitions) {
-    const config = typeof def === 'string' ? { path: def } : def;
-    let node = root;
+  const { path, locale } = resolved;
+  const segments = decodeSegments(path, options);
+  const query = resolveQuerySerializer(options.querySerializer).parse(search);
+  for (const { segments: pattern, target, status } of redirects) {
+    const params = bindParams(pattern, segments);
+    if (!params) continue;
+    try {
+      const parsed = target.paramParser ? { ...params, ...(runParser(target.paramParser, params) as Record<string, unknown>) } : params;
+      // The target is built in the locale the URL is in
+      const targetOptions = locale === undefined ? target.options : { ...target.options, locale };
+      const node = createNamedNode(target, parsed, Object.keys(query).length > 0 ? query : undefined, undefined, targetOptions);
+      return { name: target.name, pattern: target.pattern, node, status, location: node.toString() } as RedirectResult<T>;
+    } catch {
+      // The target rejected the params; a later redirect may still match
+    }
+  }
+  return null;
+}
 
-    const segments = config.path.split('/').filter(Boolean);
+/**
+ * Route URLs to handlers by route name. Handlers get the parsed params, query and
+ * meta of their route, plus the request passed to `handle()`. URLs that match no
+ * handled route resolve to `not-found`; URLs whose parsers throw to `invalid`.
+ */
+function createHandlerMap<const T extends readonly RouteDefinition[], R = unknown>(
+  routes: RouteTree<T>,
+  handlers: RouteHandlers<T, R>
+): HandlerMap<R> {
+  const metadata = routes[ROUTE_METADATA];
+  const byName = handlers as Partial<Record<string, (ctx: unknown, request: R) => unknown>>;
 
-    // Handle root route "/"
-    if (segments.length === 0) {
-      root.isTerminal = true;
-      if (config.query) root.queryParser = createObjectParser(config.query);
-      if (config.meta) root.meta = config.meta;
+  return {
+    handle: async (url, request) => {
+      const errors: unknown[] = [];
+      const match = await matchUrlAsync(metadata, url, errors);
+      const handler = match?.name === undefined ? undefined : byName[match.name];
+      if (!match || !handler) {
+        return errors.length > 0 ? { type: 'invalid', error: errors[0] } : { type: 'not-found' };
+      }
+      const { hash: _hash, ...ctx } = match;
+      return { type: 'handled', value: await handler(ctx, request) };
+    },
+  };
+}
+
+/**
+ * Check whether a node is active for the current URL, e.g. to highlight nav links.
+ * By default any URL at or below the node's path matches; `exact` requires the same path.
+ * Params skipped while navigating (see `$with()`) match any value, and trailing slashes
+ * are ignored so either `trailingSlash` setting works.
+ *
+ * Query keys set on the node must have the same values in the URL, unless `ignoreQuery`
+ * is set; `queryKeys` limits the comparison to those keys. With `exact`, the URL may not
+ * have other compared keys either.
+ */
+function isActive(node: ComparableNode, currentUrl: string | URL, options: IsActiveOptions = {}): boolean {
+  const nodeOptions = node.__options ?? {};
+  const { pathname, search } = typeof currentUrl === 'string' ? new URL(currentUrl, MATCH_BASE_URL) : currentUrl;
+  const resolved = resolvePath(pathname, nodeOptions);
+  if (!resolved) return false;
+
+  // With i18n, the URL must be in the node's locale and is compared with its localized path
+  const { path, locale } = resolved;
+  const { i18n } = nodeOptions;
+  let segments = node.__segments;
+  if (i18n && locale !== undefined) {
+    if (locale !== (nodeOptions.locale ?? i18n.defaultLocale)) return false;
+    if (node.__route) segments = localizeSegments(node.__route, segments, locale);
+  }
+
+  const decodeSegment = nodeOptions.decode ?? decode;
+  const pieces = path.split('/').filter(Boolean).map((seg) => decodeSegment(seg));
+  const consumed = consumePieces(segments, pieces);
+  if (consumed === null || (options.exact && consumed < pieces.length)) return false;
+  if (options.ignoreQuery) return true;
+
+  const serializer = resolveQuerySerializer(nodeOptions.querySerializer);
+  const nodeQuery = node.__query ?? {};
+  const currentQuery = serializer.parse(search);
+  const keys =
+    options.queryKeys ?? [...new Set([...Object.keys(nodeQuery), ...(options.exact ? Object.keys(currentQuery) : [])])];
+  const format = (key: string, query: QueryParams) => serializer.stringify({ [key]: query[key] });
+
+  return keys.every((key) => format(key, nodeQuery) === format(key, currentQuery));
+}
+
+/**
+ * Check whether `node` is below `ancestor`: same segments up to the ancestor's
+ * length, with more after. Unfilled params of the ancestor match any value.
+ */
+function isAncestorOf(ancestor: ComparableNode, node: ComparableNode): boolean {
+  const outer = ancestor.__segments;
+  const inner = node.__segments;
+  return outer.length < inner.length && outer.every((seg, i) => segmentContains(seg, inner[i]!));
+}
+
+/** A route node's segments along the route's localized path, keeping its param segments */
+function localizeSegments(route: RouteRecord, segments: Segment[], locale: string): Segment[] {
+  const pattern = route.localizedPaths[locale];
+  if (pattern === undefined) return segments;
+  const params = new Map(segments.flatMap((seg) => (seg.type === 'static' ? [] : [[seg.name, seg] as const])));
+  return parsePattern(pattern).flatMap((seg): Segment[] => {
+    if (seg.type === 'static') return [seg];
+    const own = params.get(seg.name);
+    return own ? [own] : [];
+  });
+}
+
+/** Count the URL pieces a node's segments match from the start, or null when they don't */
+function consumePieces(segments: Segment[], pieces: string[]): number | null {
+  let i = 0;
+  for (const seg of segments) {
+    if (seg.type === 'splat') {
+      if (seg.value === undefined) return i < pieces.length ? pieces.length : null;
+      if (!seg.value.every((value, j) => pieces[i + j] === value)) return null;
+      i += seg.value.length;
       continue;
     }
+    const expected = seg.type === 'static' ? seg.name : seg.value;
+    if (i >= pieces.length || (expected !== undefined && pieces[i] !== expected)) return null;
+    i++;
+  }
+  return i;
+}
+
+function segmentContains(outer: Segment, inner: Segment): boolean {
+  if (outer.type !== inner.type || outer.name !== inner.name) return false;
+  if (outer.type === 'static' || inner.type === 'static' || outer.value === undefined) return true;
+  return String(outer.value) === String(inner.value);
+}
+
+// ============================================
+// Matching
+// ============================================
+
+/** Base for resolving relative URLs; only the pathname and search are read */
+const MATCH_BASE_URL = 'http://localhost';
+
+/** The parts of a URL a candidate route is matched against */
+interface MatchInput {
+  segments: string[];
+  query: QueryParams;
+  hash: string;
+  locale: string | undefined;
+  /** Collects the errors of candidates rejected by their parsers */
+  errors: unknown[];
+}
+
+function matchUrl(metadata: RouteMetadata, url: string | URL, errors: unknown[]): RouteMatch<readonly RouteDefinition[]> | null {
+  const input = readMatchInput(metadata, url, errors);
+  if (!input) return null;
+  for (const route of findCandidates(metadata, input)) {
+    const match = createMatch(route, input);
+    if (match) return match;
+  }
+  return null;
+}
+
+/** Like matchUrl(), but runs parsers that validate asynchronously */
+async function matchUrlAsync(
+  metadata: RouteMetadata,
+  url: string | URL,
+  errors: unknown[]
+): Promise<RouteMatch<readonly RouteDefinition[]> | null> {
+  const input = readMatchInput(metadata, url, errors);
+  if (!input) return null;
+  for (const route of findCandidates(metadata, input)) {
+    const match = await createMatchAsync(route, input);
+    if (match) return match;
+  }
+  return null;
+}
+
+/** Split a URL for matching; null when it's outside the routes' basePath or locales */
+function readMatchInput(metadata: RouteMetadata, url: string | URL, errors: unknown[]): MatchInput | null {
+  const { pathname, search, hash } = typeof url === 'string' ? new URL(url, MATCH_BASE_URL) : url;
+  const resolved = resolvePath(pathname, metadata.options);
+  if (!resolved) return null;
+
+  const { path, locale } = resolved;
+  return {
+    segments: decodeSegments(path, metadata.options),
+    query: resolveQuerySerializer(metadata.options.querySerializer).parse(search),
+    hash: decode(hash.slice(1)),
+    locale,
+    errors,
+  };
+}
+
+/** Routes that could take the URL's path, in the tree of its locale and then among aliases */
+function findCandidates(metadata: RouteMetadata, input: MatchInput): RouteRecord[] {
+  const { locale, segments } = input;
+  const tree = (locale === undefined ? undefined : metadata.localeTrees.get(locale)) ?? metadata.tree;
+  const found: RouteRecord[] = [];
+  collectCandidates(tree, segments, 0, found);
+  collectCandidates(metadata.aliasTree, segments, 0, found);
+  return found;
+}
+
+/** Routes below a node that could take the rest of the path: static children first, then params, then a splat */
+function collectCandidates(node: TreeNode, segments: string[], index: number, found: RouteRecord[]): void {
+  if (index === segments.length) {
+    if (node.route) found.push(node.route);
+    return;
+  }
+
+  const staticChild = node.children[segments[index]!];
+  if (staticChild) collectCandidates(staticChild, segments, index + 1, found);
+
+  const paramChild = node.children['$param'];
+  if (paramChild) collectCandidates(paramChild, segments, index + 1, found);
+
+  // A splat consumes the rest of the path
+  const splatChild = node.children['$splat'];
+  if (splatChild?.route) found.push(splatChild.route);
+}
 
-    for (const seg of segments) {
-      const isParam = seg.startsWith(':');
-      const key = isParam ? '$param' : seg;
-      const paramName = isParam ? seg.slice(1) : null;
+function decodeSegments(path: string, options: RoutishOptions): string[] {
+  const decodeSegment = options.decode ?? decode;
+  return path.split('/').filter(Boolean).map((seg) => decodeSegment(seg));
+}
+
+/**
+ * The path of a URL within the routes: basePath and, with `i18n`, the locale prefix
+ * removed. Null when the URL is outside the basePath or lacks a required locale.
+ */
+function resolvePath(pathname: string, options: RoutishOptions): { path: string; locale: string | undefined } | null {
+  const path = stripBasePath(pathname, options);
+  if (path === null) return null;
+  if (!options.i18n) return { path, locale: undefined };
+  return stripLocale(path, options.i18n);
+}
+
+/** Remove the configured basePath from a pathname; null when the path is outside it */
+function stripBasePath(pathname: string, options: RoutishOptions): string | null {
+  const base = normalizeBasePath(options.basePath);
+  if (!base) return pathname;
+  if (pathname === base) return '/';
+  return pathname.startsWith(base + '/') ? pathname.slice(base.length) : null;
+}
+
+/**
+ * Bind URL segments to a route's pattern. Optional params are tried with a
+ * value first, then skipped; a splat takes every remaining segment.
+ */
+function bindParams(pattern: PatternSegment[], segments: string[]): Record<string, string | string[]> | null {
+  const [head, ...rest] = pattern;
+  if (!head) return segments.length === 0 ? {} : null;
+
+  if (head.type === 'static') {
+    return segments[0] === head.name ? bindParams(rest, segments.slice(1)) : null;
+  }
+  if (head.type === 'splat') {
+    return segments.length > 0 ? { [head.name]: segments } : null;
+  }
+  if (segments.length > 0 && matchesConstraint(head.constraint, segments[0]!)) {
+    const bound = bindParams(rest, segments.slice(1));
+    if (bound) return { [head.name]: segments[0]!, ...bound };
+  }
+  return head.optional ? bindParams(rest, segments) : null;
+}
+
+function createMatch(route: RouteRecord, input: MatchInput): RouteMatch<readonly RouteDefinition[]> | null {
+  const params = bindParams(route.segments, input.segments);
+  if (!params) return null;
+  try {
+    const parsedParams = route.paramParser ? { ...params, ...(runParser(route.paramParser, params) as Record<string, unknown>) } : params;
+    const parsedQuery = route.queryParser ? (runParser(route.queryParser, input.query) as QueryParams) : input.query;
+    return toRouteMatch(route, parsedParams, parsedQuery, input);
+  } catch (error) {
+    // An async parser can't be run here, which says nothing about whether the URL matches
+    if (error instanceof AsyncParserError) throw error;
+    input.errors.push(error);
+    return null;
+  }
+}
+
+async function createMatchAsync(route: RouteRecord, input: MatchInput): Promise<RouteMatch<readonly RouteDefinition[]> | null> {
+  const params = bindParams(route.segments, input.segments);
+  if (!params) return null;
+  try {
+    const parsedParams = route.paramParser
+      ? { ...params, ...((await runParserAsync(route.paramParser, params)) as Record<string, unknown>) }
+      : params;
+    const parsedQuery = route.queryParser ? ((await runParserAsync(route.queryParser, input.query)) as QueryParams) : input.query;
+    return toRouteMatch(route, parsedParams, parsedQuery, input);
+  } catch (error) {
+    input.errors.push(error);
+    return null;
+  }
+}
+
+function toRouteMatch(
+  route: RouteRecord,
+  params: Record<string, unknown>,
+  query: QueryParams,
+  { hash, locale }: MatchInput
+): RouteMatch<readonly RouteDefinition[]> {
+  const match = {
+    name: route.name,
+    pattern: route.pattern,
+    params,
+    query,
+    hash: hash ? matchHash(route, hash) : undefined,
+    meta: route.meta ?? undefined,
+  };
+  return (locale === undefined ? match : { ...match, locale }) as RouteMatch<readonly RouteDefinition[]>;
+}
 
-      node = node.children[key] ??= { children: {}, paramName, paramParser: null, queryParser: null, meta: null, isTerminal: false };
+/** A hash that fails the route's `hash` config is dropped rather than failing the match */
+function matchHash(route: RouteRecord, hash: string): string | undefined {
+  try {
+    return resolveHash(route, hash);
+  } catch {
+    return undefined;
+  }
+}
+
+// ============================================
+// Tree Building
+// ============================================
 
-      if (isParam && config.params?.[paramName!]) {
-        node.paramParser = config.params[paramName!] as Parser;
+function buildTree(root: TreeNode, definitions: RouteDefinition[], records: RouteRecord[]): void {
+  definitions.forEach((def, i) => {
+    const config = typeof def === 'string' ? { path: def } : def;
+    // Optional params fork the walk: one branch takes the param, the other skips it
+    let nodes = [root];
+
+    for (const seg of records[i]!.segments) {
+      if (seg.type === 'static') {
+        nodes = nodes.map((node) => (node.children[seg.name] ??= createTreeNode(joinPath(node.pattern, seg.name))));
+        continue;
       }
+
+      const key = seg.type === 'splat' ? '$splat' : '$param';
+      // Keep the constraint so errors from the proxy quote the same pattern as the route's
+      const part = seg.type === 'splat' ? formatSplat(seg.name) : `:${seg.name}${formatConstraint(seg.constraint)}`;
+      const paramNodes = nodes.map((node) => {
+        const paramNode = (node.children[key] ??= createTreeNode(joinPath(node.pattern, part), seg.name));
+        if (config.params?.[seg.name]) paramNode.paramParser = config.params[seg.name] as Parser;
+        if (seg.type === 'param' && seg.constraint !== undefined) paramNode.paramConstraint = seg.constraint;
+        return paramNode;
+      });
+      nodes = seg.type === 'param' && seg.optional ? [...paramNodes, ...nodes] : paramNodes;
     }
 
-    // Mark the final node as terminal
-    node.isTerminal = true;
-    if (config.query) node.queryParser = createObjectParser(config.query);
-    if (config.meta) node.meta = config.meta;
+    // Mark the final nodes as terminal
+    for (const node of nodes) {
+      node.isTerminal = true;
+      node.route = records[i]!;
+      if (config.query) node.queryParser = createObjectParser(config.query, { pattern: config.path, kind: 'query' });
+      if (config.meta) node.meta = config.meta;
+    }
+  });
+}
+
+/** Trees of the localized paths, for the locales some route has one for */
+function buildLocaleTrees(definitions: RouteDefinition[], records: RouteRecord[], i18n: LocaleOptions | undefined): Map<string, TreeNode> {
+  const trees = new Map<string, TreeNode>();
+  for (const locale of i18n?.locales ?? []) {
+    if (!records.some((route) => route.localizedPaths[locale] !== undefined)) continue;
+    const tree = createTreeNode('/');
+    // The records keep their own pattern, so matches report it and not the localized one
+    const localized = records.map((route) => ({ ...route, segments: parsePattern(localizedPattern(route, locale)) }));
+    buildTree(tree, definitions, localized);
+    trees.set(locale, tree);
   }
-  return root;
+  return trees;
 }
 
-function buildNamedRoutes(definitions: RouteDefinition[], options: RoutishOptions): Map<string, NamedRoute> {
-  const named = new Map<string, NamedRoute>();
+/** Tree of the routes' aliases, whose nodes point at the aliased routes */
+function buildAliasTree(definitions: RouteDefinition[], records: RouteRecord[]): TreeNode {
+  const tree = createTreeNode('/');
+  const aliasDefinitions: RouteDefinition[] = [];
+  const aliasRecords: RouteRecord[] = [];
+  definitions.forEach((def, i) => {
+    const route = records[i]!;
+    for (const alias of route.aliases) {
+      aliasDefinitions.push(def);
+      aliasRecords.push({ ...route, segments: parsePattern(alias) });
+    }
+  });
+  buildTree(tree, aliasDefinitions, aliasRecords);
+  return tree;
+}
 
-  for (const def of definitions) {
-    if (typeof def === 'string' || !def.name) continue;
+function createTreeNode(pattern: string, paramName: string | null = null): TreeNode {
+  return {
+    // No prototype, so segments like "constructor" or "__proto__" are never mistaken for children
+    children: Object.create(null),
+    pattern,
+    paramName,
+    paramParser: null,
+    paramConstraint: null,
+    queryParser: null,
+    meta: null,
+    isTerminal: false,
+    route: null,
+  };
+}
 
-    const paramNames: string[] = [];
-    const paramParsers: ParserMap = {};
+function createRouteRecord(def: RouteDefinition, options: RoutishOptions, root: TreeNode): RouteRecord {
+  const config = typeof def === 'string' ? { path: def } : def;
+  const segments = parsePattern(config.path);
+  const paramNames: string[] = [];
+  const paramParsers: ParserMap = {};
 
-    for (const seg of def.path.split('/').filter(Boolean)) {
-      if (seg.startsWith(':')) {
-        const name = seg.slice(1);
-        paramNames.push(name);
-        if (def.params?.[name]) paramParsers[name] = def.params[name];
-      }
+  for (const seg of segments) {
+    if (seg.type !== 'static') {
+      paramNames.push(seg.name);
+      if (config.params?.[seg.name]) paramParsers[seg.name] = config.params[seg.name];
     }
+  }
 
-    named.set(def.name, {
-      pattern: def.path,
-      paramNames,
-      paramParser: Object.keys(paramParsers).length > 0 ? createObjectParser(paramParsers) : null,
-      queryParser: def.query ? createObjectParser(def.query) : null,
-      meta: def.meta ?? null,
-      options,
-    });
+  const localizedPaths = config.localizedPaths ?? {};
+  const localizedTemplates = Object.fromEntries(
+    Object.entries(localizedPaths).map(([locale, path]) => [locale, compilePath(parsePattern(path), paramNames)])
+  );
+
+  return {
+    pattern: config.path,
+    name: config.name,
+    segments,
+    paramNames,
+    paramParser: Object.keys(paramParsers).length > 0 ? createObjectParser(paramParsers, { pattern: config.path, kind: 'param' }) : null,
+    queryParser: config.query ? createObjectParser(config.query, { pattern: config.path, kind: 'query' }) : null,
+    hash: config.hash ?? null,
+    meta: config.meta ?? null,
+    localizedPaths,
+    template: compilePath(segments, paramNames),
+    localizedTemplates,
+    aliases: config.aliases ?? [],
+    options,
+    root,
+  };
+}
+
+function buildNamedRoutes(records: RouteRecord[]): Map<string, RouteRecord> {
+  const named = new Map<string, RouteRecord>();
+
+  for (const record of records) {
+    if (record.name) named.set(record.name, record);
   }
 
   return named;
 }
 
-function buildAllRoutes(definitions: RouteDefinition[]): RouteInfo[] {
-  return definitions.map((def) =>
-    typeof def === 'string' ? { pattern: def } : { pattern: def.path, name: def.name, meta: def.meta }
+/** Redirects to the routes they target; ones to unknown routes were reported by validation */
+function buildRedirects(
+  redirects: readonly RedirectConfig[],
+  namedRoutes: Map<string, RouteRecord>,
+  records: RouteRecord[]
+): RedirectRecord[] {
+  return redirects.flatMap((redirect) => {
+    const target = namedRoutes.get(redirect.to) ?? records.find((route) => route.pattern === redirect.to);
+    if (!target) return [];
+    return [{ from: redirect.from, segments: parsePattern(redirect.from), target, status: redirect.status ?? 308 }];
+  });
+}
+
+function toRouteInfo(def: RouteDefinition): RouteInfo {
+  if (typeof def === 'string') return { pattern: def };
+  const info: RouteInfo = { pattern: def.path, name: def.name, meta: def.meta };
+  if (def.aliases?.length) info.aliases = [...def.aliases];
+  return info;
+}
+
+function buildNestedRoutes(resolved: ResolvedDefinition[]): RouteInfo[] {
+  return resolved.map(({ config, children }) =>
+    children.length > 0 ? { ...toRouteInfo(config), children: buildNestedRoutes(children) } : toRouteInfo(config)
   );
 }
 
 // ============================================
-// Proxy Creation
+// Nested Definitions
 // ============================================
 
-function createRootProxy(tree: TreeNode, options: RoutishOptions, metadata: { definitions: readonly RouteDefinition[]; namedRoutes: Map<string, NamedRoute>; allRoutes: RouteInfo[] }): unknown {
-  const trailingSlash = options.trailingSlash ?? false;
-  const paramNode = tree.children['$param'];
+/** A definition with its absolute path and inherited params, query and meta */
+interface ResolvedDefinition {
+  config: RouteDefinition;
+  children: ResolvedDefinition[];
+}
+
+function resolveDefinitions(definitions: readonly RouteDefinition[], parent: RouteConfig | null): ResolvedDefinition[] {
+  return definitions.map((def) => {
+    if (typeof def === 'string' && !parent) return { config: def, children: [] };
+
+    const { children, ...own } = typeof def === 'string' ? { path: def, children: undefined } : def;
+    const config: RouteConfig = parent
+      ? {
+          ...own,
+          path: joinPath(parent.path, own.path),
+          params: mergeMaps(parent.params, own.params),
+          query: mergeMaps(parent.query, own.query),
+          meta: mergeMaps(parent.meta, own.meta),
+          localizedPaths: joinLocalizedPaths(parent, own),
+          aliases: own.aliases?.map((alias) => joinPath(parent.path, alias)),
+        }
+      : own;
+
+    return { config, children: children ? resolveDefinitions(children, config) : [] };
+  });
+}
+
+/**
+ * Run every route's meta, with the keys it inherits, through the `metaSchema` option.
+ * Children keep the full parsed meta, so inherited defaults don't override their parent's values.
+ */
+function applyMetaSchema(definitions: readonly RouteDefinition[], schema: Parser): RouteDefinition[] {
+  const issues: DefinitionIssue[] = [];
+  const apply = (defs: readonly RouteDefinition[], parentPath: string, parentMeta: Meta | undefined): RouteDefinition[] =>
+    defs.map((def) => {
+      const config: RouteConfig = typeof def === 'string' ? { path: def } : def;
+      const path = parentPath ? joinPath(parentPath, config.path) : config.path;
+      let meta = mergeMaps(parentMeta, config.meta) ?? {};
+      try {
+        meta = runParser(schema, meta) as Meta;
+      } catch (error) {
+        if (error instanceof AsyncParserError) throw error;
+        const reason = error instanceof Error ? error.message : String(error);
+        issues.push({ code: 'invalid-meta', message: `Invalid meta for "${path}": ${reason}`, patterns: [path] });
+      }
+      return config.children ? { ...config, meta, children: apply(config.children, path, meta) } : { ...config, meta };
+    });
+
+  const parsed = apply(definitions, '', undefined);
+  if (issues.length > 0) throw new RouteDefinitionError(issues);
+  return parsed;
+}
+
+function flattenDefinitions(resolved: ResolvedDefinition[]): RouteDefinition[] {
+  return resolved.flatMap(({ config, children }) => [config, ...flattenDefinitions(children)]);
+}
+
+function mountDefinition(prefix: string, def: RouteDefinition): RouteDefinition {
+  if (typeof def === 'string') return joinPath(prefix, def);
+  const mounted = { ...def, path: joinPath(prefix, def.path) };
+  if (def.aliases) mounted.aliases = def.aliases.map((alias) => joinPath(prefix, alias));
+  if (def.localizedPaths) {
+    mounted.localizedPaths = Object.fromEntries(Object.entries(def.localizedPaths).map(([locale, path]) => [locale, joinPath(prefix, path)]));
+  }
+  return mounted;
+}
+
+function joinPath(parent: string, child: string): string {
+  const relative = child.replace(/^\/+/, '');
+  return relative ? parent.replace(/\/+$/, '') + '/' + relative : parent;
+}
+
+/** A child's localized paths under its parent's, for the locales either of them localizes */
+function joinLocalizedPaths(parent: RouteConfig, child: RouteConfig): Record<string, string> | undefined {
+  const locales = new Set([...Object.keys(parent.localizedPaths ?? {}), ...Object.keys(child.localizedPaths ?? {})]);
+  if (locales.size === 0) return undefined;
+  return Object.fromEntries(
+    [...locales].map((locale) => [
+      locale,
+      joinPath(parent.localizedPaths?.[locale] ?? parent.path, child.localizedPaths?.[locale] ?? child.path),
+    ])
+  );
+}
+
+/** Shallow merge where the child's keys win */
+function mergeMaps<M extends object>(parent: M | undefined, child: M | undefined): M | undefined {
+  return parent && child ? { ...parent, ...child } : (child ?? parent);
+}
+
+// ============================================
+// Proxy Creation
+// ============================================
 
+function createRootProxy(tree: TreeNode, options: RoutishOptions, metadata: RouteMetadata): unknown {
   // Create the $index route node (represents "/")
   const createIndexNode = (query?: QueryParams): unknown => {
-    const validated = query && tree.queryParser ? runParser(tree.queryParser, query) : query;
-    return createRouteNode([], validated as QueryParams, tree.meta, trailingSlash);
+    const pending: PendingParse[] = [];
+    const validated = query && tree.queryParser ? parseOrDefer(tree.queryParser, query, 'query', pending) : query;
+    return createRouteNode([], validated as QueryParams, tree.route, options, '/', undefined, pending);
   };
 
-  const fn = (valueOrQuery?: string | number | QueryParams, maybeQuery?: QueryParams) => {
-    if (typeof valueOrQuery === 'object') {
+  const fn = (valueOrQuery?: ParamCallValue | QueryParams, maybeQuery?: QueryParams) => {
+    if (isQueryArgument(valueOrQuery)) {
       return createIndexNode(valueOrQuery);
     }
-    if (paramNode && (typeof valueOrQuery === 'string' || typeof valueOrQuery === 'number')) {
-      let value: string | number = valueOrQuery;
-      if (paramNode.paramParser) value = runParser(paramNode.paramParser, valueOrQuery) as string | number;
-      const newSegments = [{ type: 'param' as const, name: paramNode.paramName!, value: String(value) }];
-      const validated = maybeQuery && paramNode.queryParser ? runParser(paramNode.queryParser, maybeQuery) : maybeQuery;
-      return createProxy(newSegments, validated as QueryParams, paramNode, options, paramNode.meta);
-    }
-    throw new Error('Invalid arguments');
+    return callParamChild([], valueOrQuery, maybeQuery, tree, options, []);
   };
 
   // Store metadata on the function for proxy access
   (fn as any)[ROUTE_METADATA] = metadata;
 
+  const createIndexProxy = () => {
+    // Return the index route node with callable for query params
+    const indexFn = (query?: QueryParams) => createIndexNode(query);
+    let methods: RouteMethods | undefined;
+    const getMethods = () => (methods ??= createRouteMethods([], undefined, tree.route, options, '/'));
+    return new Proxy(indexFn, {
+      get: (_, indexProp: string | symbol) => {
+        if (indexProp === '__segments') return [];
+        if (indexProp === '__query') return undefined;
+        if (indexProp === '__options') return options;
+        if (indexProp === '__route') return tree.route;
+        return getRouteMethod(getMethods, indexProp);
+      },
+    });
+  };
+  let index: unknown;
+  const children = new Map<string, unknown>();
+
   return new Proxy(fn, {
-    get: (target, prop: string | symbol) => {
+    get: (target, prop: string | symbol, receiver) => {
       // Handle ROUTE_METADATA symbol - return actual value from target
       if (prop === ROUTE_METADATA) {
         return (target as any)[ROUTE_METADATA];
       }
-      if (prop === '$index') {
-        // Return the index route node with callable for query params
-        const indexFn = (query?: QueryParams) => createIndexNode(query);
-        return new Proxy(indexFn, {
-          get: (_, indexProp: string | symbol) => {
-            if (indexProp === '__segments') return [];
-            if (indexProp === '__query') return undefined;
-            if (indexProp === 'getMeta') return () => tree.meta ?? undefined;
-            if (indexProp === 'toString' || indexProp === Symbol.toStringTag) {
-              return () => {
-                if (!tree.isTerminal) {
-                  throw new Error('"/" is not a defined route. Define it explicitly: createRoutes([\'/\', ...])');
-                }
-                return buildPath([], undefined, trailingSlash);
-              };
-            }
-            if (indexProp === 'toPattern') {
-              return () => {
-                if (!tree.isTerminal) {
-                  throw new Error('"/" is not a defined route. Define it explicitly: createRoutes([\'/\', ...])');
-                }
-                return '/';
-              };
-            }
-            if (indexProp === 'then') return undefined;
-            return undefined;
-          },
-        });
-      }
+      if (prop === '$index') return (index ??= createIndexProxy());
       if (prop === '__segments') return [];
       if (prop === '__query') return undefined;
+      if (prop === '__options') return options;
       if (prop === 'getMeta') return () => tree.meta ?? undefined;
       if (prop === 'toString' || prop === Symbol.toStringTag) {
         return () => {
-          throw new Error('Cannot call toString() on routes directly. Use routes.$index for the root route.');
+          throw new RouteArgumentError('/', 'Cannot call toString() on routes directly. Use routes.$index for the root route.');
         };
       }
       if (prop === 'toPattern') {
         return () => {
-          throw new Error('Cannot call toPattern() on routes directly. Use routes.$index for the root route.');
+          throw new RouteArgumentError('/', 'Cannot call toPattern() on routes directly. Use routes.$index for the root route.');
         };
       }
+      if (prop === '$with') return createWith(receiver, [], tree);
       if (prop === 'then') return undefined;
       if (typeof prop === 'symbol') return undefined;
-      const child = tree.children[prop] ?? paramNode?.children[prop];
-      return child ? createProxy([{ type: 'static', name: prop }], undefined, child, options, child.meta) : undefined;
+      const child = tree.children[prop];
+      if (child) return cached(children, prop, () => createProxy([{ type: 'static', name: prop }], undefined, child, options));
+      return skipParam(receiver, [], [], tree, prop, options);
     },
   });
 }
 
+type RouteMethods = Pick<
+  RouteNode,
+  | 'getMeta'
+  | 'toString'
+  | 'safeToString'
+  | 'toStringAsync'
+  | 'toPattern'
+  | 'toURL'
+  | 'withHash'
+  | 'withQuery'
+  | 'withParams'
+  | 'parent'
+  | 'ancestors'
+>;
+
+/** A parser that validated asynchronously while building a node, run by toStringAsync() */
+interface PendingParse {
+  parser: Parser;
+  value: unknown;
+  /** Index of the segment the parsed value replaces, or the query */
+  target: number | 'query';
+  context: ParseContext | undefined;
+}
+
+/** Run a parser, deferring async validation to toStringAsync() and keeping the raw value meanwhile */
+function parseOrDefer(
+  parser: Parser,
+  value: unknown,
+  target: PendingParse['target'],
+  pending: PendingParse[],
+  context?: ParseContext
+): unknown {
+  try {
+    return runParser(parser, value, context);
+  } catch (error) {
+    if (!(error instanceof AsyncParserError)) throw error;
+    pending.push({ parser, value, target, context });
+    return value;
+  }
+}
+
+/** Pending parses that still apply once the node's query is replaced */
+function withoutQuery(pending: PendingParse[]): PendingParse[] {
+  return pending.length === 0 ? pending : pending.filter((p) => p.target !== 'query');
+}
+
+/**
+ * Methods shared by every route node. Output methods throw an UndefinedRouteError
+ * when the node is not a defined (terminal) route.
+ */
+function createRouteMethods(
+  segments: Segment[],
+  query: QueryParams | undefined,
+  route: RouteRecord | null,
+  options: RoutishOptions,
+  nodePattern: string,
+  hash?: string,
+  pending: PendingParse[] = []
+): RouteMethods {
+  const assertDefined = (): RouteRecord => {
+    if (!route) throw new UndefinedRouteError(nodePattern);
+    return route;
+  };
+  // Derived nodes validate their changes synchronously and can't carry deferred parses along
+  const assertSettled = (): RouteRecord => {
+    const defined = assertDefined();
+    if (pending.length > 0) throw new AsyncParserError();
+    return defined;
+  };
+  // Nodes never change, so their URL in the tree's own locale is only built once
+  let url: string | undefined;
+  const toString = (toStringOptions: ToStringOptions = {}) => {
+    const defined = assertSettled();
+    if (toStringOptions.locale !== undefined) return buildUrl(defined, segments, query, options, hash, toStringOptions.locale);
+    return (url ??= buildUrl(defined, segments, query, options, hash));
+  };
+  const ancestors = () => findAncestors(assertDefined().root, segments);
+
+  return {
+    getMeta: () => route?.meta ?? undefined,
+    toString,
+    safeToString: () => safely(() => toString()),
+    toStringAsync: async () => {
+      const defined = assertDefined();
+      let resolvedSegments = segments;
+      let resolvedQuery = query;
+      const outputs = await Promise.all(pending.map(({ parser, value, context }) => runParserAsync(parser, value, context)));
+      pending.forEach(({ target }, i) => {
+        if (target === 'query') resolvedQuery = outputs[i] as QueryParams;
+        else resolvedSegments = replaceSegmentValue(resolvedSegments, target, outputs[i]);
+      });
+      return buildUrl(defined, resolvedSegments, resolvedQuery, options, hash);
+    },
+    toPattern: (patternOptions: PatternOptions = {}) => {
+      const defined = assertDefined();
+      const requested = patternOptions.locale ?? options.locale;
+      const locale = requested === undefined ? undefined : resolveLocale(options, defined.pattern, requested);
+      const localized = prefixLocale(options.i18n, locale, localizedPattern(defined, locale));
+      const pattern = formatPattern(localized, options.trailingSlash ?? false);
+      return convertPattern(
+        patternOptions.basePath === false ? pattern : withBasePath(pattern, options),
+        patternOptions.format ?? 'colon',
+        patternOptions.constraints
+      );
+    },
+    toURL: (origin = options.origin) => {
+      if (!origin) {
+        throw new RouteArgumentError(nodePattern, 'toURL() needs an origin. Pass one or set the "origin" option in createRoutes()');
+      }
+      return new URL(toString(), origin);
+    },
+    withHash: (value: string) => {
+      const defined = assertDefined();
+      return createRouteNode(segments, query, defined, options, nodePattern, resolveHash(defined, value), pending);
+    },
+    withQuery: (patch: QueryParams) => {
+      const defined = assertSettled();
+      const merged: QueryParams = { ...query };
+      const updates: QueryParams = {};
+      for (const [key, value] of Object.entries(patch)) {
+        if (value === undefined || value === null) delete merged[key];
+        else updates[key] = value;
+      }
+      const parsed = defined.queryParser ? (runParser(defined.queryParser, updates) as QueryParams) : updates;
+      return createRouteNode(segments, { ...merged, ...parsed }, defined, options, nodePattern, hash);
+    },
+    withParams: (patch: Record<string, unknown>) => {
+      const defined = assertSettled();
+      const updates = Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined));
+      const parsed = defined.paramParser ? (runParser(defined.paramParser, updates) as Record<string, unknown>) : updates;
+      return createNamedNode(defined, { ...readParams(segments), ...patch, ...parsed }, query, hash, options);
+    },
+    parent: () => ancestors().pop() ?? null,
+    ancestors,
+  };
+}
+
+/** Validate a hash against the route's `hash` config; a leading "#" is ignored */
+function resolveHash(route: RouteRecord, value: string): string {
+  const hash = value.startsWith('#') ? value.slice(1) : value;
+  if (!route.hash) return hash;
+  if (Array.isArray(route.hash)) {
+    if (!route.hash.includes(hash)) {
+      const cause = new Error(`"${hash}" is not one of: ${route.hash.join(', ')}`);
+      throw new RouteValidationError(route.pattern, 'hash', undefined, cause);
+    }
+    return hash;
+  }
+  return String(runParser(route.hash as Parser<string, string>, hash, { pattern: route.pattern, kind: 'hash' }));
+}
+
+/** Names of the route methods, so proxies can tell them apart before creating any */
+const ROUTE_METHOD_NAMES: ReadonlySet<string | symbol> = new Set(
+  Object.keys({
+    getMeta: true,
+    toString: true,
+    safeToString: true,
+    toStringAsync: true,
+    toPattern: true,
+    toURL: true,
+    withHash: true,
+    withQuery: true,
+    withParams: true,
+    parent: true,
+    ancestors: true,
+  } satisfies Record<keyof RouteMethods, true>)
+);
+
+/** Look up a route method for a proxy `get` trap; `methods` is only called for one */
+function getRouteMethod(methods: () => RouteMethods, prop: string | symbol): unknown {
+  if (prop === Symbol.toStringTag) return methods().toString;
+  if (ROUTE_METHOD_NAMES.has(prop)) return methods()[prop as keyof RouteMethods];
+  return undefined;
+}
+
 function createRouteNode(
   segments: Segment[],
   query: QueryParams | undefined,
-  meta: Meta | null,
-  trailingSlash: boolean
-): unknown {
+  route: RouteRecord | null,
+  options: RoutishOptions,
+  nodePattern: string,
+  hash?: string,
+  pending: PendingParse[] = []
+): RouteNode {
   return {
     __segments: segments,
     __query: query,
-    getMeta: () => meta ?? undefined,
-    toString: () => buildPath(segments, query, trailingSlash),
-    toPattern: () => buildPattern(segments, trailingSlash),
+    __hash: hash,
+    __options: options,
+    __route: route,
+    ...createRouteMethods(segments, query, route, options, nodePattern, hash, pending),
   };
 }
 
-function buildPath(segments: Segment[], query: QueryParams | undefined, trailingSlash: boolean): string {
-  // Root path is always just "/" (no double slash with trailingSlash)
-  const basePath = segments.length === 0 ? '/' : '/' + segments.map((s) => (s.type === 'static' ? s.name : s.value)).join('/') + (trailingSlash ? '/' : '');
-  if (!query || Object.keys(query).length === 0) return basePath;
-  return basePath + '?' + new URLSearchParams(Object.entries(query).map(([k, v]) => [k, String(v)])).toString();
+/** Current param values of a node, keyed by name */
+function readParams(segments: Segment[]): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const seg of segments) {
+    if (seg.type !== 'static') params[seg.name] = seg.value;
+  }
+  return params;
 }
 
-function buildPattern(segments: Segment[], trailingSlash: boolean): string {
-  return '/' + segments.map((s) => (s.type === 'static' ? s.name : `:${s.name}`)).join('/') + (trailingSlash ? '/' : '');
+/** Nodes for the defined routes along the path of `segments`, excluding its own */
+function findAncestors(root: TreeNode, segments: Segment[]): RouteNode[] {
+  const found: RouteNode[] = [];
+  let node: TreeNode | undefined = root;
+  for (let i = 0; node && i < segments.length; i++) {
+    if (node.route) {
+      const prefix = segments.slice(0, i);
+      found.push(createRouteNode(prefix, undefined, node.route, node.route.options, node.pattern));
+    }
+    const seg: Segment = segments[i]!;
+    node = node.children[seg.type === 'static' ? seg.name : seg.type === 'splat' ? '$splat' : '$param'];
+  }
+  return found;
 }
 
-function createProxy(
+/** Copy segments with a new parsed value at one param or splat position */
+function replaceSegmentValue(segments: Segment[], index: number, value: unknown): Segment[] {
+  return segments.map((seg, i) => {
+    if (i !== index || seg.type === 'static') return seg;
+    return seg.type === 'splat' ? { ...seg, value: toSplatValue(value) } : { ...seg, value: String(value) };
+  });
+}
+
+/** Normalize the basePath option: leading slash, no trailing slash, "" for none */
+function normalizeBasePath(basePath: string | undefined): string {
+  const trimmed = (basePath ?? '').replace(/\/+$/, '');
+  return trimmed && !trimmed.startsWith('/') ? '/' + trimmed : trimmed;
+}
+
+function withBasePath(path: string, options: RoutishOptions): string {
+  return options.basePath ? normalizeBasePath(options.basePath) + path : path;
+}
+
+/** The URL of a route node: basePath, locale prefix, then the route's path in that locale */
+function buildUrl(
+  route: RouteRecord,
+  segments: Segment[],
+  query: QueryParams | undefined,
+  options: RoutishOptions,
+  hash: string | undefined,
+  locale?: string
+): string {
+  const resolved = resolveLocale(options, route.pattern, locale);
+  const template = (resolved === undefined ? undefined : route.localizedTemplates[resolved]) ?? route.template;
+  const path = renderPath(template, templateValues(route, segments), options.encode ?? encode, options.trailingSlash);
+  const search = query ? resolveQuerySerializer(options.querySerializer).stringify(query) : '';
+  const fragment = hash ? '#' + encodeHash(hash) : '';
+  const localized = prefixLocale(options.i18n, resolved, path, options.trailingSlash);
+  return withBasePath((search ? localized + '?' + search : localized) + fragment, options);
+}
+
+/**
+ * A node's param values by their index in the route's `paramNames`. The node's
+ * segments follow the route's, minus the optional params it skipped.
+ */
+function templateValues(route: RouteRecord, segments: Segment[]): (string | string[] | undefined)[] {
+  const values: (string | string[] | undefined)[] = [];
+  // Without skipped optionals the segments line up with the route's one to one
+  if (segments.length === route.segments.length) {
+    for (const seg of segments) if (seg.type !== 'static') values.push(seg.value);
+    return values;
+  }
+  let i = 0;
+  for (const seg of route.segments) {
+    const current = segments[i];
+    if (seg.type === 'static') {
+      i++;
+    } else if (current && current.type !== 'static' && current.type === seg.type) {
+      values.push(current.value);
+      i++;
+    } else {
+      values.push(undefined);
+    }
+  }
+  return values;
+}
+
+function formatSplat(name: string): string {
+  return name === '*' ? '*' : `:${name}*`;
+}
+
+type ParamCallValue = string | number | readonly (string | number)[];
+
+function isQueryArgument(value: unknown): value is QueryParams {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Descend into the param or splat child of a node. Arrays always target the
+ * splat; scalars prefer a param child and fall back to the splat.
+ */
+function callParamChild(
   segments: Segment[],
+  value: ParamCallValue | undefined,
   query: QueryParams | undefined,
   tree: TreeNode,
   options: RoutishOptions,
-  meta: Meta | null
+  pending: PendingParse[]
 ): unknown {
   const paramNode = tree.children['$param'];
-  const trailingSlash = options.trailingSlash ?? false;
+  const splatNode = tree.children['$splat'];
+  const nextPending = withoutQuery(pending);
+  const index = segments.length;
 
-  const fn = (valueOrQuery?: string | number | QueryParams, maybeQuery?: QueryParams) => {
-    if (typeof valueOrQuery === 'object') {
-      const validated = tree.queryParser ? runParser(tree.queryParser, valueOrQuery) : valueOrQuery;
-      return createProxy(segments, validated as QueryParams, tree, options, tree.meta);
-    }
-    if (paramNode && (typeof valueOrQuery === 'string' || typeof valueOrQuery === 'number')) {
-      let value: string | number = valueOrQuery;
-      if (paramNode.paramParser) value = runParser(paramNode.paramParser, valueOrQuery) as string | number;
-      const newSegments = [...segments, { type: 'param' as const, name: paramNode.paramName!, value: String(value) }];
-      const validated = maybeQuery && paramNode.queryParser ? runParser(paramNode.queryParser, maybeQuery) : maybeQuery;
-      return createProxy(newSegments, validated as QueryParams, paramNode, options, paramNode.meta);
+  if (paramNode && (typeof value === 'string' || typeof value === 'number')) {
+    const parsed = paramNode.paramParser ? parseOrDefer(paramNode.paramParser, value, index, nextPending, paramContext(paramNode)) : value;
+    if (paramNode.paramConstraint) assertConstraint(paramContext(paramNode), paramNode.paramConstraint, String(parsed));
+    const newSegments: Segment[] = [...segments, { type: 'param', name: paramNode.paramName!, value: String(parsed) }];
+    const validated = query && paramNode.queryParser ? parseOrDefer(paramNode.queryParser, query, 'query', nextPending) : query;
+    return createProxy(newSegments, validated as QueryParams, paramNode, options, nextPending);
+  }
+  if (splatNode && value !== undefined) {
+    const parsed = splatNode.paramParser ? parseOrDefer(splatNode.paramParser, value, index, nextPending, paramContext(splatNode)) : value;
+    const splat = requireSplatValue(parsed, splatNode.pattern, splatNode.paramName!);
+    const newSegments: Segment[] = [...segments, { type: 'splat', name: splatNode.paramName!, value: splat }];
+    const validated = query && splatNode.queryParser ? parseOrDefer(splatNode.queryParser, query, 'query', nextPending) : query;
+    return createProxy(newSegments, validated as QueryParams, splatNode, options, nextPending);
+  }
+  throw new RouteArgumentError(tree.pattern, 'Invalid arguments');
+}
+
+/** Reject a param value that doesn't match its inline constraint, like a parser would */
+function assertConstraint(context: ParseContext, constraint: string | null | undefined, value: string): void {
+  if (!matchesConstraint(constraint, value)) {
+    throw new RouteValidationError(context.pattern, 'param', context.key, new Error(`"${value}" does not match (${constraint})`));
+  }
+}
+
+/** Parse context for the param or splat of a tree node */
+function paramContext(node: TreeNode): ParseContext {
+  return { pattern: node.pattern, kind: 'param', key: node.paramName! };
+}
+
+/** Normalize a splat value (array or slash-joined string) into path pieces */
+function toSplatValue(value: unknown): string[] {
+  const pieces = Array.isArray(value) ? value.map(String) : String(value).split('/');
+  return pieces.filter(Boolean);
+}
+
+/** A splat takes at least one segment; a missing or empty value is a missing param */
+function requireSplatValue(value: unknown, pattern: string, name: string): string[] {
+  const pieces = value === undefined || value === null ? [] : toSplatValue(value);
+  if (pieces.length === 0) throw new RouteArgumentError(pattern, `Missing value for param "${name}" in "${pattern}"`);
+  return pieces;
+}
+
+/** Format a route's defined pattern (which keeps optional markers) for output */
+function formatPattern(pattern: string, trailingSlash: boolean): string {
+  return trailingSlash && !pattern.endsWith('/') ? pattern + '/' : pattern;
+}
+
+function createProxy(
+  segments: Segment[],
+  query: QueryParams | undefined,
+  tree: TreeNode,
+  options: RoutishOptions,
+  pending: PendingParse[] = []
+): unknown {
+  // Methods and static children are created on first access, then reused
+  let methods: RouteMethods | undefined;
+  const getMethods = () => (methods ??= createRouteMethods(segments, query, tree.route, options, tree.pattern, undefined, pending));
+  let children: Map<string, unknown> | undefined;
+
+  const fn = (valueOrQuery?: ParamCallValue | QueryParams, maybeQuery?: QueryParams) => {
+    if (isQueryArgument(valueOrQuery)) {
+      const nextPending = withoutQuery(pending);
+      const validated = tree.queryParser ? parseOrDefer(tree.queryParser, valueOrQuery, 'query', nextPending) : valueOrQuery;
+      return createProxy(segments, validated as QueryParams, tree, options, nextPending);
     }
-    throw new Error('Invalid arguments');
+    return callParamChild(segments, valueOrQuery, maybeQuery, tree, options, pending);
   };
 
   return new Proxy(fn, {
-    get: (_, prop: string | symbol) => {
+    get: (_, prop: string | symbol, receiver) => {
       if (prop === '__segments') return segments;
       if (prop === '__query') return query;
-      if (prop === 'getMeta') return () => (meta ?? tree.meta) ?? undefined;
-      if (prop === 'toString' || prop === Symbol.toStringTag) {
-        return () => {
-          if (!tree.isTerminal) {
-            const pattern = buildPattern(segments, false);
-            throw new Error(`"${pattern}" is not a defined route. Did you forget to add it to createRoutes()?`);
-          }
-          return buildPath(segments, query, trailingSlash);
-        };
-      }
-      if (prop === 'toPattern') {
-        return () => {
-          if (!tree.isTerminal) {
-            const pattern = buildPattern(segments, false);
-            throw new Error(`"${pattern}" is not a defined route. Did you forget to add it to createRoutes()?`);
-          }
-          return buildPattern(segments, trailingSlash);
-        };
-      }
+      if (prop === '__options') return options;
+      if (prop === '__route') return tree.route;
+      const method = getRouteMethod(getMethods, prop);
+      if (method) return method;
+      if (prop === '$with') return createWith(receiver, [], tree);
       if (prop === 'then') return undefined;
       if (typeof prop === 'symbol') return undefined;
-      const child = tree.children[prop] ?? paramNode?.children[prop];
-      return child ? createProxy([...segments, { type: 'static', name: prop }], undefined, child, options, child.meta) : undefined;
+      const child = tree.children[prop];
+      if (child) {
+        return cached((children ??= new Map()), prop, () =>
+          createProxy([...segments, { type: 'static', name: prop }], undefined, child, options, withoutQuery(pending))
+        );
+      }
+      return skipParam(receiver, segments, [], tree, prop, options);
+    },
+  });
+}
+
+/** The value cached under `key`, created on first use */
+function cached<V>(cache: Map<string, V>, key: string, create: () => V): V {
+  let value = cache.get(key);
+  if (value === undefined) {
+    value = create();
+    cache.set(key, value);
+  }
+  return value;
+}
+
+// ============================================
+// Param Templates
+// ============================================
+
+/**
+ * Navigate past an unfilled param, e.g. `routes.users.posts` for
+ * "/users/:userId/posts". Returns a template whose `$with()` fills it in.
+ */
+function skipParam(
+  start: unknown,
+  segments: Segment[],
+  steps: Segment[],
+  tree: TreeNode,
+  prop: string,
+  options: RoutishOptions
+): unknown {
+  const paramNode = tree.children['$param'];
+  const child = paramNode?.children[prop];
+  if (!child) return undefined;
+  const skipped: Segment[] = [
+    { type: 'param', name: paramNode.paramName! },
+    { type: 'static', name: prop },
+  ];
+  return createTemplateProxy(start, [...segments, ...skipped], [...steps, ...skipped], child, options);
+}
+
+/**
+ * A node with unfilled params. Only `getMeta()`, `toPattern()` and further
+ * navigation work until `$with()` replays the skipped steps from `start`.
+ */
+function createTemplateProxy(
+  start: unknown,
+  segments: Segment[],
+  steps: Segment[],
+  tree: TreeNode,
+  options: RoutishOptions
+): unknown {
+  const { pattern } = tree;
+  const { getMeta, toPattern } = createRouteMethods(segments, undefined, tree.route, options, pattern);
+  const missing = () => {
+    const names = steps.filter((s) => s.type !== 'static').map((s) => `"${s.name}"`);
+    throw new RouteArgumentError(pattern, `Missing values for ${names.join(', ')} in "${pattern}". Fill them in with $with()`);
+  };
+
+  return new Proxy(missing, {
+    get: (_, prop: string | symbol) => {
+      if (prop === '__segments') return segments;
+      if (prop === '__options') return options;
+      if (prop === '__route') return tree.route;
+      if (prop === 'getMeta') return getMeta;
+      if (prop === 'toPattern') return toPattern;
+      if (prop === '$with') return createWith(start, steps, tree);
+      if (prop === 'toString' || prop === Symbol.toStringTag) return missing;
+      if (typeof prop === 'symbol' || prop === 'then') return undefined;
+      const child = tree.children[prop];
+      if (child) {
+        const next: Segment = { type: 'static', name: prop };
+        return createTemplateProxy(start, [...segments, next], [...steps, next], child, options);
+      }
+      return skipParam(start, segments, steps, tree, prop, options);
     },
   });
 }
+
+/**
+ * Create `$with(params, query)`: replay `steps` from `start` as chained calls,
+ * then keep calling into param children while `params` has their values.
+ * Throws when that ends short of a route because a param value is missing.
+ */
+function createWith(start: unknown, steps: Segment[], tree: TreeNode) {
+  return (params: Record<string, unknown> = {}, query?: QueryParams): unknown => {
+    const { pattern } = tree;
+    let node = toProxyNode(start, pattern);
+    for (const step of steps) {
+      if (step.type === 'static') {
+        node = toProxyNode(node[step.name], pattern);
+      } else if (params[step.name] === undefined) {
+        throw new RouteArgumentError(pattern, `Missing value for param "${step.name}" in "${pattern}"`);
+      } else {
+        node = toProxyNode(node(params[step.name]), pattern);
+      }
+    }
+
+    let last = tree;
+    let current: TreeNode | undefined;
+    while ((current = trailingParamChild(last, params))) {
+      node = toProxyNode(node(params[current.paramName!]), pattern);
+      last = current;
+    }
+    // Stopping short of a route means a param it needs was left out
+    const unfilled = last.route ? undefined : (last.children['$param'] ?? last.children['$splat']);
+    if (unfilled) {
+      throw new RouteArgumentError(unfilled.pattern, `Missing value for param "${unfilled.paramName}" in "${unfilled.pattern}"`);
+    }
+    return query ? node(query) : node;
+  };
+}
+
+/** A route proxy as `$with()` replays it: called with a param value or query, indexed by segment */
+type ProxyNode = ((value: unknown) => unknown) & Record<string, unknown>;
+
+/** Narrow a node `$with()` reached; route proxies wrap functions */
+function toProxyNode(value: unknown, pattern: string): ProxyNode {
+  if (typeof value !== 'function') throw new RouteArgumentError(pattern, `Can't fill in the params of "${pattern}"`);
+  return value as ProxyNode;
+}
+
+function trailingParamChild(tree: TreeNode, params: Record<string, unknown>): TreeNode | undefined {
+  return [tree.children['$param'], tree.children['$splat']].find((child) => child && params[child.paramName!] !== undefined);
+}
@@ -0,0 +1,56 @@
+import { RouteArgumentError } from './errors.js';
+import type { LocaleAlternate, LocaleOptions, RouteRecord, RoutishOptions } from './types.js';
+
+/**
+ * The locale to build a URL in: the one asked for, then the tree's (see `withLocale()`),
+ * then the default. Undefined when the routes have no `i18n` option.
+ */
+export function resolveLocale(options: RoutishOptions, pattern: string, locale = options.locale): string | undefined {
+  const { i18n } = options;
+  if (!i18n) {
+    if (locale === undefined) return undefined;
+    throw new RouteArgumentError(pattern, `Can't build "${pattern}" in locale "${locale}": the routes have no "i18n" option`);
+  }
+  if (locale === undefined) return i18n.defaultLocale;
+  if (!i18n.locales.includes(locale)) {
+    throw new RouteArgumentError(pattern, `Unknown locale "${locale}". Use one of: ${i18n.locales.join(', ')}`);
+  }
+  return locale;
+}
+
+/**
+ * A path behind its locale's prefix. The root path becomes the bare prefix (`/de`),
+ * or `/de/` with a trailing slash.
+ */
+export function prefixLocale(i18n: LocaleOptions | undefined, locale: string | undefined, path: string, trailingSlash = false): string {
+  const prefix = localePrefix(i18n, locale);
+  if (!prefix || path !== '/') return prefix + path;
+  return trailingSlash ? prefix + '/' : prefix;
+}
+
+/** `/de` for a locale, or "" for the default locale when it isn't prefixed */
+function localePrefix(i18n: LocaleOptions | undefined, locale: string | undefined): string {
+  if (!i18n || locale === undefined) return '';
+  return i18n.prefix === 'except-default' && locale === i18n.defaultLocale ? '' : `/${locale}`;
+}
+
+/** Split the locale off a path; null when the path needs a locale prefix and has none */
+export function stripLocale(path: string, i18n: LocaleOptions): { locale: string; path: string } | null {
+  const [, first = '', rest = ''] = /^\/([^/]*)(.*)$/.exec(path) ?? [];
+  if (i18n.locales.includes(first)) return { locale: first, path: rest || '/' };
+  return i18n.prefix === 'except-default' ? { locale: i18n.defaultLocale, path } : null;
+}
+
+/** A route's pattern in a locale, falling back to its own */
+export function localizedPattern(route: RouteRecord, locale: string | undefined): string {
+  return (locale === undefined ? undefined : route.localizedPaths[locale]) ?? route.pattern;
+}
+
+/** `hreflang` alternates of a route, one per locale plus `x-default` */
+export function localeAlternates(route: RouteRecord, i18n: LocaleOptions): LocaleAlternate[] {
+  const patternIn = (locale: string) => prefixLocale(i18n, locale, localizedPattern(route, locale));
+  return [
+    ...i18n.locales.map((locale) => ({ hreflang: locale, pattern: patternIn(locale) })),
+    { hreflang: 'x-default', pattern: patternIn(i18n.defaultLocale) },
+  ];
+}
@@ -1,9 +1,57 @@
-import type { Parser, ParserMap } from './types.js';
+import { AsyncParserError, RouteValidationError, SchemaValidationError, type ValidationKind } from './errors.js';
+import type { Parser, ParserMap, StandardSchemaResult, StandardSchemaV1 } from './types.js';
+
+/** Where a parser runs; its errors are rethrown as a RouteValidationError */
+export interface ParseContext {
+  pattern: string;
+  kind: ValidationKind;
+  key?: string;
+}
+
+/**
+ * Run a parser (handles Standard Schema, function, .parse(), .validateSync(), and .decode())
+ */
+export function runParser<I, O>(parser: Parser<I, O>, value: I, context?: ParseContext): O {
+  try {
+    return parseValue(parser, value);
+  } catch (error) {
+    throw withContext(error, context);
+  }
+}
 
 /**
- * Run a parser (handles function, .parse(), .validateSync(), and .decode())
+ * Run a parser, awaiting Standard Schemas and `.parseAsync()` that validate asynchronously
  */
-export function runParser<I, O>(parser: Parser<I, O>, value: I): O {
+export async function runParserAsync<I, O>(parser: Parser<I, O>, value: I, context?: ParseContext): Promise<O> {
+  try {
+    if (isStandardSchema(parser)) {
+      return unwrapResult(await parser['~standard'].validate(value));
+    }
+    if (hasParseAsync(parser)) {
+      return (await parser.parseAsync(value)) as O;
+    }
+    return parseValue(parser, value);
+  } catch (error) {
+    throw withContext(error, context);
+  }
+}
+
+function withContext(error: unknown, context: ParseContext | undefined): unknown {
+  if (!context || error instanceof RouteValidationError || error instanceof AsyncParserError) return error;
+  return new RouteValidationError(context.pattern, context.kind, context.key, error);
+}
+
+function parseValue<I, O>(parser: Parser<I, O>, value: I): O {
+  // Standard Schema: checked first, since compliant libraries may also match the styles below
+  if (isStandardSchema(parser)) {
+    const result = parser['~standard'].validate(value);
+    if (result instanceof Promise) {
+      // The async APIs validate again; avoid an unhandled rejection from this attempt
+      result.catch(() => {});
+      throw new AsyncParserError();
+    }
+    return unwrapResult(result);
+  }
   // Function style
   if (typeof parser === 'function') {
     return parser(value);
@@ -24,22 +72,46 @@ export function runParser<I, O>(parser: Parser<I, O>, value: I): O {
     }
     throw new Error(`Decode failed: ${JSON.stringify(result.left)}`);
   }
-  throw new Error('Invalid parser: must be a function or have .parse(), .validateSync(), or .decode() method');
+  throw new Error('Invalid parser: must be a Standard Schema, a function or have .parse(), .validateSync(), or .decode() method');
+}
+
+function isStandardSchema<I, O>(parser: Parser<I, O>): parser is StandardSchemaV1<I, O> {
+  return '~standard' in parser && typeof parser['~standard'] === 'object';
+}
+
+function hasParseAsync(parser: unknown): parser is { parseAsync: (value: unknown) => Promise<unknown> } {
+  return typeof (parser as { parseAsync?: unknown }).parseAsync === 'function';
+}
+
+function unwrapResult<O>(result: StandardSchemaResult<O>): O {
+  if (result.issues) {
+    throw new SchemaValidationError(result.issues);
+  }
+  return result.value;
 }
 
 /**
- * Create a combined parser from a ParserMap
+ * Create a combined parser from a ParserMap. With a context, errors name the offending key.
  */
-export function createObjectParser(parserMap: ParserMap): Parser<Record<string, unknown>, Record<string, unknown>> {
+export function createObjectParser(
+  parserMap: ParserMap,
+  context?: Omit<ParseContext, 'key'>
+): Parser<Record<string, unknown>, Record<string, unknown>> {
+  const entries = (obj: Record<string, unknown>) => Object.entries(parserMap).filter(([key]) => key in obj);
+  const keyContext = (key: string) => context && { ...context, key };
   return {
     parse: (obj: Record<string, unknown>) => {
       const result: Record<string, unknown> = {};
-      for (const [key, parser] of Object.entries(parserMap)) {
-        if (key in obj) {
-          result[key] = runParser(parser, obj[key]);
-        }
+      for (const [key, parser] of entries(obj)) {
+        result[key] = runParser(parser, obj[key], keyContext(key));
       }
       return result;
     },
-  };
+    parseAsync: async (obj: Record<string, unknown>) => {
+      const values = await Promise.all(
+        entries(obj).map(async ([key, parser]) => [key, await runParserAsync(parser, obj[key], keyContext(key))])
+      );
+      return Object.fromEntries(values);
+    },
+  } as Parser<Record<string, unknown>, Record<string, unknown>>;
 }
@@ -0,0 +1,159 @@
+import { RouteArgumentError, RouteDefinitionError } from './errors.js';
+import type { PathTemplate, PatternFormat, PatternSegment } from './types.js';
+
+/** `:name`, an optional `(constraint)`, then `?` or `*` */
+const PARAM_SEGMENT = /^:([^(?*]*)(?:\((.*)\))?([?*]?)$/;
+
+/**
+ * Split a route pattern into static, param (`:id`, `:id?`, `:id(\d+)`) and
+ * splat (`*`, `:rest*`) segments.
+ */
+export function parsePattern(path: string): PatternSegment[] {
+  const parts = path.split('/').filter(Boolean);
+  const invalid = (message: string) => new RouteDefinitionError([{ code: 'invalid-segment', message, patterns: [path] }]);
+
+  return parts.map((seg, i): PatternSegment => {
+    if (seg !== '*' && !seg.startsWith(':')) return { type: 'static', name: seg };
+
+    const match = seg === '*' ? [] : PARAM_SEGMENT.exec(seg);
+    if (!match) throw invalid(`Invalid param segment "${seg}" in "${path}"`);
+    const [, name = '', constraint, modifier] = match;
+    const isSplat = seg === '*' || modifier === '*';
+    if (isSplat && i !== parts.length - 1) {
+      throw invalid(`Splat segment "${seg}" must be the last segment in "${path}"`);
+    }
+    if (isSplat && constraint !== undefined) {
+      throw invalid(`Splat segment "${seg}" in "${path}" can't have a constraint`);
+    }
+    if (isSplat) return { type: 'splat', name: seg === '*' ? '*' : name };
+    return constraint === undefined
+      ? { type: 'param', name, optional: modifier === '?' }
+      : { type: 'param', name, optional: modifier === '?', constraint };
+  });
+}
+
+/** Compile a route's segments once, so building its paths only fills in param values */
+export function compilePath(segments: PatternSegment[], paramNames: readonly string[]): PathTemplate {
+  const template: (string | number)[] = [];
+  let run = '';
+  for (const seg of segments) {
+    if (seg.type === 'static') {
+      run += '/' + seg.name;
+      continue;
+    }
+    if (run) template.push(run);
+    run = '';
+    template.push(paramNames.indexOf(seg.name));
+  }
+  if (run) template.push(run);
+  return template;
+}
+
+/**
+ * Build a path from a compiled template and the param values by index. Params
+ * without a value (skipped optionals) are left out; splat pieces are encoded one
+ * by one so the slashes between them survive. The root path is always just "/".
+ */
+export function renderPath(
+  template: PathTemplate,
+  values: readonly (string | readonly string[] | undefined)[],
+  encodeSegment: (value: string) => string,
+  trailingSlash = false
+): string {
+  let path = '';
+  for (const part of template) {
+    if (typeof part === 'string') {
+      path += part;
+      continue;
+    }
+    const value = values[part];
+    if (typeof value === 'string') path += '/' + encodeSegment(value);
+    else if (value) for (const piece of value) path += '/' + encodeSegment(piece);
+  }
+  if (path === '') return '/';
+  return trailingSlash ? path + '/' : path;
+}
+
+const constraintCache = new Map<string, RegExp>();
+
+/** Whether a param value satisfies an inline constraint, which must match the whole value */
+export function matchesConstraint(constraint: string | null | undefined, value: string): boolean {
+  if (constraint === null || constraint === undefined) return true;
+  let regex = constraintCache.get(constraint);
+  if (!regex) {
+    regex = new RegExp(`^(?:${constraint})$`);
+    constraintCache.set(constraint, regex);
+  }
+  return regex.test(value);
+}
+
+/** A pattern with param names erased, so `/users/:id` and `/users/:userId` compare equal */
+export function normalizePattern(pattern: string): string {
+  const segments = parsePattern(pattern).map((seg) =>
+    seg.type === 'static' ? seg.name : seg.type === 'splat' ? '*' : seg.optional ? ':?' : ':'
+  );
+  return '/' + segments.join('/');
+}
+
+/**
+ * Rewrite a pattern in another dialect. Bare `*` splats are named `splat` where
+ * the dialect needs a name; segments a dialect can't express throw. Inline
+ * constraints are kept where the dialect has them, unless `constraints` is false.
+ */
+export function convertPattern(path: string, format: PatternFormat, constraints = true): string {
+  if (format === 'colon' && constraints) return path;
+
+  const segments = parsePattern(path).map((seg) =>
+    seg.type === 'param' && !constraints ? { type: seg.type, name: seg.name, optional: seg.optional } : seg
+  );
+  if (format === 'regex') return toRegexSource(segments);
+
+  const trailingSlash = segments.length > 0 && path.endsWith('/');
+  const formatted = segments.map((seg) => formatSegment(seg, format, path));
+  return '/' + formatted.join('/') + (trailingSlash ? '/' : '');
+}
+
+function formatSegment(seg: PatternSegment, format: Exclude<PatternFormat, 'regex'>, path: string): string {
+  if (seg.type === 'static') return seg.name;
+  const name = seg.name === '*' ? 'splat' : seg.name;
+
+  switch (format) {
+    case 'colon':
+      if (seg.type === 'splat') return seg.name === '*' ? '*' : `:${name}*`;
+      return `:${name}${formatConstraint(seg.constraint)}${seg.optional ? '?' : ''}`;
+    case 'next':
+      if (seg.type === 'splat') return `[...${name}]`;
+      if (seg.optional) throw unsupported(path, format, `optional param "${seg.name}"`);
+      return `[${name}]`;
+    case 'openapi':
+      if (seg.type === 'splat') throw unsupported(path, format, `splat "${seg.name}"`);
+      if (seg.optional) throw unsupported(path, format, `optional param "${seg.name}"`);
+      return `{${name}}`;
+    case 'urlpattern':
+      if (seg.type === 'splat') return seg.name === '*' ? '*' : `:${name}+`;
+      return `:${name}${formatConstraint(seg.constraint)}${seg.optional ? '?' : ''}`;
+  }
+}
+
+/** A constraint as written in colon-style patterns, e.g. `(\d+)` */
+export function formatConstraint(constraint: string | undefined): string {
+  return constraint === undefined ? '' : `(${constraint})`;
+}
+
+function unsupported(path: string, format: PatternFormat, what: string): RouteArgumentError {
+  return new RouteArgumentError(path, `Can't express ${what} of "${path}" in the ${format} format`);
+}
+
+/** Anchored regex source; params capture into named groups where the name allows it */
+function toRegexSource(segments: PatternSegment[]): string {
+  const body = segments
+    .map((seg) => {
+      if (seg.type === 'static') return '/' + seg.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const name = /^[A-Za-z_$][\w$]*$/.test(seg.name) ? `?<${seg.name}>` : '';
+      const value = seg.type === 'splat' ? '.+' : seg.constraint === undefined ? '[^/]+' : `(?:${seg.constraint})`;
+      const group = `(${name}${value})`;
+      return seg.type === 'param' && seg.optional ? `(?:/${group})?` : `/${group}`;
+    })
+    .join('');
+  return body ? `^${body}/?$` : '^/$';
+}
@@ -0,0 +1,190 @@
+import type { QueryFormat, QueryParams, QuerySerializer } from './types.js';
+
+export interface QuerySerializerOptions {
+  /** Emit keys in alphabetical order instead of insertion order */
+  sortKeys?: boolean;
+}
+
+/**
+ * Create a query string serializer for one of the built-in formats:
+ * - `repeat`: `a=1&a=2` (default)
+ * - `brackets`: `a[]=1&a[]=2`
+ * - `comma`: `a=1,2`
+ * - `json`: arrays and objects as JSON, `a=["1","2"]`
+ * - `nested`: qs-style, `a[0]=1&b[c]=2`
+ *
+ * `undefined` and `null` values are dropped. Every format has a matching
+ * `parse()` used when reading query strings back.
+ */
+export function createQuerySerializer(format: QueryFormat = 'repeat', options: QuerySerializerOptions = {}): QuerySerializer {
+  return {
+    stringify: (query) => {
+      const pairs: [string, string][] = [];
+      for (const key of orderKeys(query, options)) {
+        appendPairs(pairs, format, key, query[key], options);
+      }
+      return new URLSearchParams(pairs).toString();
+    },
+    parse: (search) => {
+      // No prototype, so keys like "toString" or "__proto__" are read as plain keys
+      const result: QueryParams = Object.create(null);
+      new URLSearchParams(search).forEach((value, key) => {
+        readPair(result, format, key, value);
+      });
+      return result;
+    },
+  };
+}
+
+/** Built-in serializers, created on first use */
+const serializers: Partial<Record<QueryFormat, QuerySerializer>> = {};
+
+/** Resolve the `querySerializer` option into a serializer */
+export function resolveQuerySerializer(option: QueryFormat | QuerySerializer | undefined): QuerySerializer {
+  if (typeof option === 'object') return option;
+  return (serializers[option ?? 'repeat'] ??= createQuerySerializer(option));
+}
+
+// ============================================
+// Stringify
+// ============================================
+
+function orderKeys(obj: Record<string, unknown>, options: QuerySerializerOptions): string[] {
+  const keys = Object.keys(obj);
+  return options.sortKeys ? keys.sort() : keys;
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function formatScalar(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function appendPairs(
+  pairs: [string, string][],
+  format: QueryFormat,
+  key: string,
+  value: unknown,
+  options: QuerySerializerOptions
+): void {
+  if (!isPresent(value)) return;
+
+  if (format === 'nested') {
+    if (Array.isArray(value)) {
+      value.filter(isPresent).forEach((item, i) => appendPairs(pairs, format, `${key}[${i}]`, item, options));
+    } else if (isPlainObject(value)) {
+      for (const childKey of orderKeys(value, options)) {
+        appendPairs(pairs, format, `${key}[${childKey}]`, value[childKey], options);
+      }
+    } else {
+      pairs.push([key, formatScalar(value)]);
+    }
+    return;
+  }
+
+  if (!Array.isArray(value)) {
+    pairs.push([key, formatScalar(value)]);
+    return;
+  }
+
+  const items = value.filter(isPresent);
+  switch (format) {
+    case 'brackets':
+      for (const item of items) pairs.push([`${key}[]`, formatScalar(item)]);
+      break;
+    case 'comma':
+      if (items.length > 0) pairs.push([key, items.map(formatScalar).join(',')]);
+      break;
+    case 'json':
+      pairs.push([key, JSON.stringify(items)]);
+      break;
+    default:
+      for (const item of items) pairs.push([key, formatScalar(item)]);
+  }
+}
+
+// ============================================
+// Parse
+// ============================================
+
+function readPair(result: QueryParams, format: QueryFormat, key: string, value: string): void {
+  switch (format) {
+    case 'brackets':
+      if (key.endsWith('[]')) {
+        const name = key.slice(0, -2);
+        result[name] = [...toArray(ownValue(result, name)), value];
+        return;
+      }
+      break;
+    case 'comma':
+      result[key] = value.includes(',') ? value.split(',') : value;
+      return;
+    case 'json':
+      result[key] = parseJson(value);
+      return;
+    case 'nested': {
+      const path = parseNestedKey(key);
+      // Paths through `__proto__`, `constructor` or `prototype` are dropped
+      if (!path.some((part) => UNSAFE_KEYS.has(part))) setNested(result, path, value);
+      return;
+    }
+  }
+  // Repeated keys collect into an array
+  result[key] = hasOwn(result, key) ? [...toArray(result[key]), value] : value;
+}
+
+function hasOwn(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+function ownValue(obj: Record<string, unknown>, key: string): unknown {
+  return hasOwn(obj, key) ? obj[key] : undefined;
+}
+
+/** Path parts that would reach into an object's prototype */
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function parseJson(value: string): unknown {
+  if (!value.startsWith('[') && !value.startsWith('{')) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/** Split `a[b][0]` into `['a', 'b', '0']`; `a[]` yields an empty path part for appending */
+function parseNestedKey(key: string): string[] {
+  const open = key.indexOf('[');
+  if (open <= 0 || !key.endsWith(']')) return [key];
+  return [key.slice(0, open), ...key.slice(open + 1, -1).split('][')];
+}
+
+function setNested(target: Record<string, unknown>, path: string[], value: string): void {
+  const [head, ...rest] = path as [string, ...string[]];
+  const key = Array.isArray(target) && head === '' ? String(target.length) : head;
+
+  if (rest.length === 0) {
+    target[key] = value;
+    return;
+  }
+
+  // Numeric or empty child keys create arrays; anything else an object
+  const existing = ownValue(target, key);
+  const child = typeof existing === 'object' && existing !== null ? existing : /^\d*$/.test(rest[0]!) ? [] : {};
+  target[key] = child;
+  setNested(child as Record<string, unknown>, rest, value);
+}
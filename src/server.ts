@@ -0,0 +1,127 @@
+import { RouteValidationError } from './errors.js';
+import type { HandlerMap, HandlerOutcome } from './types.js';
+
+/** The parts of Node's `IncomingMessage` the adapter reads */
+export interface NodeRequest {
+  url?: string;
+}
+
+/** The parts of Node's `ServerResponse` the adapter writes */
+export interface NodeResponse {
+  statusCode: number;
+  headersSent: boolean;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+export interface NodeHandlerOptions<R extends NodeRequest> {
+  /** Called with what a handler threw, before the 500 response is sent */
+  onError?: (error: unknown, req: R) => void;
+}
+
+/** The parts of an Express request the adapter reads */
+export interface ExpressRequest {
+  originalUrl: string;
+}
+
+/** The parts of an Express response the adapter writes */
+export interface ExpressResponse {
+  headersSent: boolean;
+  status(code: number): ExpressResponse;
+  json(body: unknown): unknown;
+  end(): unknown;
+}
+
+/** A JSON error body and its status for outcomes that weren't handled */
+function errorResponse(outcome: Exclude<HandlerOutcome, { type: 'handled' }>): { status: number; body: unknown } {
+  if (outcome.type === 'not-found') return { status: 404, body: { error: 'Not Found' } };
+  const { error } = outcome;
+  return {
+    status: 400,
+    body: error instanceof RouteValidationError ? { error: error.message, issues: error.issues } : { error: String(error) },
+  };
+}
+
+/**
+ * Handler for `http.createServer()`. Responds 404 or 400 with a JSON error, and
+ * sends what the handler returns as JSON unless it already wrote the response.
+ * Handler errors are passed to `onError` and answered with a 500.
+ */
+export function toNodeHandler<R extends NodeRequest>(
+  map: HandlerMap<R>,
+  options: NodeHandlerOptions<R> = {}
+): (req: R, res: NodeResponse) => Promise<void> {
+  const send = (res: NodeResponse, status: number, body: unknown) => {
+    res.statusCode = status;
+    if (body === undefined) {
+      res.end();
+      return;
+    }
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  };
+
+  return async (req, res) => {
+    let outcome: HandlerOutcome;
+    try {
+      outcome = await map.handle(req.url ?? '/', req);
+    } catch (error) {
+      options.onError?.(error, req);
+      if (!res.headersSent) send(res, 500, { error: 'Internal Server Error' });
+      return;
+    }
+    if (res.headersSent) return;
+    if (outcome.type !== 'handled') {
+      const { status, body } = errorResponse(outcome);
+      send(res, status, body);
+      return;
+    }
+    send(res, outcome.value === undefined ? 204 : 200, outcome.value);
+  };
+}
+
+/**
+ * Express-style middleware. Responds 404 or 400 with a JSON error, sends what the
+ * handler returns with `res.json()`, and passes handler errors to `next()`.
+ */
+export function toExpressHandler<R extends ExpressRequest>(
+  map: HandlerMap<R>
+): (req: R, res: ExpressResponse, next: (error?: unknown) => void) => Promise<void> {
+  return async (req, res, next) => {
+    let outcome: HandlerOutcome;
+    try {
+      outcome = await map.handle(req.originalUrl, req);
+    } catch (error) {
+      next(error);
+      return;
+    }
+    if (res.headersSent) return;
+    if (outcome.type !== 'handled') {
+      const { status, body } = errorResponse(outcome);
+      res.status(status).json(body);
+    } else if (outcome.value === undefined) {
+      res.status(204).end();
+    } else {
+      res.json(outcome.value);
+    }
+  };
+}
+
+/**
+ * Fetch API handler (`(request: Request) => Promise<Response>`). Responds 404 or 400
+ * with a JSON error; handlers may return a `Response`, anything else is sent as JSON.
+ */
+export function toFetchHandler(map: HandlerMap<Request>): (request: Request) => Promise<Response> {
+  const json = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  return async (request) => {
+    const outcome = await map.handle(request.url, request);
+    if (outcome.type !== 'handled') {
+      const { status, body } = errorResponse(outcome);
+      return json(status, body);
+    }
+    if (outcome.value instanceof Response) return outcome.value;
+    return outcome.value === undefined ? new Response(null, { status: 204 }) : json(200, outcome.value);
+  };
+}
@@ -0,0 +1,42 @@
+import type { GeneratedPath } from './types.js';
+
+export interface SitemapOptions {
+  /** Origin the paths are resolved against, e.g. `https://example.com` */
+  origin: string;
+  /** Last modification of every URL, or per path; omitted when undefined */
+  lastmod?: string | Date | ((path: GeneratedPath) => string | Date | undefined);
+}
+
+/**
+ * Render a `sitemap.xml` for generated paths. Routes with `meta.sitemap === false`
+ * are left out; `meta.priority` and `meta.changefreq` are copied onto their URLs.
+ */
+export function renderSitemap(paths: GeneratedPath[], options: SitemapOptions): string {
+  const urls = paths
+    .filter((path) => path.meta?.sitemap !== false)
+    .map((path) => {
+      const lastmod = typeof options.lastmod === 'function' ? options.lastmod(path) : options.lastmod;
+      const fields = [
+        ['loc', new URL(path.path, options.origin).href],
+        ['lastmod', lastmod instanceof Date ? lastmod.toISOString() : lastmod],
+        ['changefreq', path.meta?.changefreq],
+        ['priority', path.meta?.priority],
+      ] as const;
+      const lines = fields
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([tag, value]) => `    <${tag}>${escapeXml(String(value))}</${tag}>`);
+      return `  <url>\n${lines.join('\n')}\n  </url>`;
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
@@ -1,7 +1,10 @@
+import type { RoutishError } from './errors.js';
+
 /**
  * Parser Types (Validation-library agnostic)
  *
  * A parser can be:
+ * - A Standard Schema: { '~standard': { validate } } (Zod, Valibot, ArkType, ...)
  * - A function: (value) => parsedValue
  * - An object with parse method: { parse: (value) => parsedValue } (Zod, Valibot, ArkType)
  * - An object with validateSync method: { validateSync: (value) => parsedValue } (Yup)
@@ -14,7 +17,27 @@ export type DecoderObject<I, O> = {
   decode: (value: I) => { _tag: 'Right'; right: O } | { _tag: 'Left'; left: unknown };
 };
 
+/** The Standard Schema interface, see https://standardschema.dev */
+export interface StandardSchemaV1<I = unknown, O = I> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<O> | Promise<StandardSchemaResult<O>>;
+    readonly types?: { readonly input: I; readonly output: O } | undefined;
+  };
+}
+
+export type StandardSchemaResult<O> =
+  | { readonly value: O; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaIssue[] };
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[] | undefined;
+}
+
 export type Parser<I = unknown, O = unknown> =
+  | StandardSchemaV1<I, O>
   | ParserFunction<I, O>
   | ParserObject<I, O>
   | ValidatorObject<I, O>
@@ -22,11 +45,19 @@ export type Parser<I = unknown, O = unknown> =
 
 export type ParserMap = Record<string, Parser<any, any>>;
 
-/** Extract output type from a Parser */
-export type ParserOutput<T> = T extends Parser<any, infer O> ? O : never;
+/** Extract output type from a Parser; declared Standard Schema types win */
+export type ParserOutput<T> = T extends { '~standard': { types?: { output: infer O } } }
+  ? O
+  : T extends Parser<any, infer O>
+    ? O
+    : never;
 
-/** Extract input type from a Parser */
-export type ParserInput<T> = T extends Parser<infer I, any> ? I : unknown;
+/** Extract input type from a Parser; declared Standard Schema types win */
+export type ParserInput<T> = T extends { '~standard': { types?: { input: infer I } } }
+  ? I
+  : T extends Parser<infer I, any>
+    ? I
+    : unknown;
 
 // ============================================
 // Input Types
@@ -34,23 +65,111 @@ export type ParserInput<T> = T extends Parser<infer I, any> ? I : unknown;
 
 export type Meta = Record<string, unknown>;
 export type QueryParams = Record<string, unknown>;
+export type HashConfig = readonly string[] | Parser<string, string>;
+
+/** Built-in query string formats, see `createQuerySerializer` */
+export type QueryFormat = 'repeat' | 'brackets' | 'comma' | 'json' | 'nested';
+
+export interface QuerySerializer {
+  /** Serialize query params, without the leading "?" */
+  stringify(query: QueryParams): string;
+  /** Parse a query string (with or without the leading "?") */
+  parse(search: string): QueryParams;
+}
+
+/** Locales the routes are served in; URLs start with their locale, e.g. `/de/preise` */
+export interface LocaleOptions {
+  locales: readonly string[];
+  defaultLocale: string;
+  /** Prefix every URL with its locale (`'always'`, default) or all but the default locale's */
+  prefix?: 'always' | 'except-default';
+}
 
 export type RoutishOptions = {
   trailingSlash?: boolean;
+  /** Path prefix the app is served under (e.g. `/app`), included by `toString()` */
+  basePath?: string;
+  /** Origin used by `toURL()` (e.g. `https://example.com`) */
+  origin?: string;
+  /**
+   * How to report duplicate names or patterns, conflicting params and invalid segments:
+   * throw a `RouteDefinitionError` (`'strict'`), log a warning (`'warn'`, default) or skip the checks (`'off'`)
+   */
+  validate?: 'strict' | 'warn' | 'off';
+  /** Query string format or a custom serializer (defaults to `'repeat'`) */
+  querySerializer?: QueryFormat | QuerySerializer;
+  /** Encode a param value for a path segment (defaults to segment-aware percent-encoding) */
+  encode?: (value: string) => string;
+  /** Decode a path segment when matching URLs (defaults to decodeURIComponent) */
+  decode?: (value: string) => string;
+  /** Locales for localized paths, see `localizedPaths` */
+  i18n?: LocaleOptions;
+  /** Locale URLs are built in (defaults to `i18n.defaultLocale`); usually set with `withLocale()` */
+  locale?: string;
+  /** Old paths that redirect to a route, see `resolveRedirect()` */
+  redirects?: readonly RedirectConfig[];
+  /** Parser every route's meta goes through, e.g. to require keys and fill in defaults */
+  metaSchema?: Parser;
 };
 
+export type RedirectStatus = 301 | 302 | 303 | 307 | 308;
+
+/** An old path that redirects to a route */
+export interface RedirectConfig<To extends string = string> {
+  /** Path that redirects, e.g. `/u/:id`; its params fill in the target's by name */
+  from: string;
+  /** Name or pattern of the target route */
+  to: To;
+  /** HTTP status code (default: 308) */
+  status?: RedirectStatus;
+}
+
+/** Options of createRoutes(), with redirect targets checked against the routes */
+export type CreateRoutesOptions<T extends readonly RouteDefinition[], S = undefined> = Omit<RoutishOptions, 'redirects' | 'metaSchema'> & {
+  redirects?: readonly RedirectConfig<ExtractNames<T> | ExtractPatterns<T>>[];
+  metaSchema?: S;
+};
+
+/** Meta a definition may declare; with a `metaSchema`, a partial of its input as children inherit the rest */
+export type MetaInput<S> = S extends Parser<any, any> ? Partial<ParserInput<S>> & Meta : Meta;
+
+/** Definitions as `metaSchema` leaves them: top-level meta is the schema's output, overridden by the literal meta */
+export type WithMetaSchema<T extends readonly RouteDefinition[], S> = S extends Parser<any, any>
+  ? ParserOutput<S> extends infer O extends Meta
+    ? { readonly [K in keyof T]: ApplyMetaSchema<T[K], O> }
+    : T
+  : T;
+
+type ApplyMetaSchema<D, O> = D extends string
+  ? { path: D; meta: O }
+  : D extends { path: string }
+    ? Omit<D, 'meta'> & { meta: MergeMaps<O, ExtractMeta<D>> }
+    : D;
+
 export type RouteConfig<
   TPath extends string = string,
   TParams extends ParserMap | undefined = ParserMap | undefined,
   TQuery extends ParserMap | undefined = ParserMap | undefined,
   TMeta extends Meta | undefined = Meta | undefined,
   TName extends string | undefined = string | undefined,
+  THash extends HashConfig | undefined = HashConfig | undefined,
 > = {
   path: TPath;
   query?: TQuery;
   params?: TParams;
   name?: TName;
   meta?: TMeta;
+  /** Allowed hash fragments: a list of literals or a parser */
+  hash?: THash;
+  /** Child routes with paths relative to this one; params, query and meta are inherited */
+  children?: readonly RouteDefinition[];
+  /**
+   * The path in other locales, e.g. `{ de: '/preise' }`, with the same params as `path`.
+   * Children's localized paths are relative to these.
+   */
+  localizedPaths?: Readonly<Record<string, string>>;
+  /** Other paths the route is served under, with the same params; relative like `path` */
+  aliases?: readonly string[];
 };
 
 export type RouteDefinition = string | RouteConfig;
@@ -59,64 +178,311 @@ export type RouteDefinition = string | RouteConfig;
 // Validation Types
 // ============================================
 
-export type ExtractParamNames<S extends string> = S extends `${string}:${infer Param}/${infer Rest}`
-  ? Param | ExtractParamNames<`/${Rest}`>
-  : S extends `${string}:${infer Param}`
-    ? Param
-    : never;
+export type ExtractParamNames<S extends string> = S extends `${infer Seg}/${infer Rest}`
+  ? SegmentParamName<StripConstraint<Seg>> | ExtractParamNames<Rest>
+  : SegmentParamName<StripConstraint<S>>;
+
+/** Param names marked optional with a trailing `?` (e.g. `:version?`) */
+export type ExtractOptionalParamNames<S extends string> = S extends `${infer Seg}/${infer Rest}`
+  ? OptionalSegmentParamName<StripConstraint<Seg>> | ExtractOptionalParamNames<Rest>
+  : OptionalSegmentParamName<StripConstraint<S>>;
+
+/** Splat param names: `*` for a bare splat, `name` for `:name*` */
+export type ExtractSplatParamNames<S extends string> = S extends `${infer Seg}/${infer Rest}`
+  ? SplatSegmentParamName<Seg> | ExtractSplatParamNames<Rest>
+  : SplatSegmentParamName<S>;
+
+type SegmentParamName<Seg extends string> = Seg extends '*'
+  ? '*'
+  : Seg extends `:${infer Name}?` | `:${infer Name}*`
+    ? Name
+    : Seg extends `:${infer Name}`
+      ? Name
+      : never;
+type OptionalSegmentParamName<Seg extends string> = Seg extends `:${infer Name}?` ? Name : never;
+type SplatSegmentParamName<Seg extends string> = Seg extends '*' ? '*' : Seg extends `:${infer Name}*` ? Name : never;
+
+/** A param segment without its inline constraint: `:id(\d+)?` becomes `:id?` */
+type StripConstraint<Seg extends string> = Seg extends `:${infer Name}(${string})?`
+  ? `:${Name}?`
+  : Seg extends `:${infer Name}(${string})`
+    ? `:${Name}`
+    : Seg;
+
+/** Values a param segment accepts, narrowed by its inline constraint */
+type SegmentConstraint<Seg extends string> = Seg extends `:${string}(${infer C})?` | `:${string}(${infer C})`
+  ? ConstraintInput<C>
+  : ParamValue;
+
+/** `\d+` accepts numbers; alternatives of plain words (`en|fr`) become a union of literals */
+type ConstraintInput<C extends string> = C extends '\\d+'
+  ? number | `${number}`
+  : [Extract<Alternatives<C>, `${string}${RegexSyntax}${string}` | ''>] extends [never]
+    ? Alternatives<C>
+    : ParamValue;
+
+type Alternatives<C extends string> = C extends `${infer Head}|${infer Rest}` ? Head | Alternatives<Rest> : C;
+type RegexSyntax = '\\' | '.' | '^' | '$' | '*' | '+' | '?' | '(' | ')' | '[' | ']' | '{' | '}';
 
-type StrictRouteConfig<Path extends string> = {
+// Params are checked against the full path, so children may add parsers for inherited params
+type StrictRouteConfig<Path extends string, FullPath extends string, M> = {
   path: Path;
   query?: ParserMap;
   name?: string;
-  meta?: Meta;
-} & (ExtractParamNames<Path> extends never
+  meta?: M;
+  hash?: HashConfig;
+  localizedPaths?: Readonly<Record<string, string>>;
+  aliases?: readonly string[];
+} & (ExtractParamNames<FullPath> extends never
   ? { params?: never }
-  : { params?: { [K in ExtractParamNames<Path>]?: Parser } });
+  : { params?: { [K in ExtractParamNames<FullPath>]?: Parser } });
 
-type ValidateDefinition<T> = T extends string
-  ? T
+// `Others` holds the sibling definitions, used to reject duplicate names and patterns
+type ValidateDefinition<T, Prefix extends string, Others, M> = T extends string
+  ? IsDuplicatePattern<T, Prefix, Others> extends true
+    ? `Duplicate route pattern "${T}"`
+    : T
   : T extends { path: infer P extends string }
-    ? StrictRouteConfig<P>
+    ? StrictRouteConfig<P, JoinPath<Prefix, P>, M> &
+        (T extends { children: infer C extends readonly unknown[] }
+          ? { children: ValidateDefinitions<C, JoinPath<Prefix, P>, M> }
+          : { children?: never }) &
+        (IsDuplicateName<T, Prefix, Others> extends true ? { name: `Duplicate route name "${ExtractName<T>}"` } : {}) &
+        (IsDuplicatePattern<P, Prefix, Others> extends true ? { path: `Duplicate route pattern "${P}"` } : {})
     : never;
 
-export type ValidateDefinitions<T extends readonly unknown[]> = {
-  [K in keyof T]: ValidateDefinition<T[K]>;
+type IsDuplicatePattern<P extends string, Prefix extends string, Others> = [Others] extends [never]
+  ? false
+  : [NormalizePattern<JoinPath<Prefix, P>>] extends [
+        NormalizePattern<ExtractPath<FlattenDefinition<Others, Prefix, null, null, null>> & string>,
+      ]
+    ? true
+    : false;
+
+type IsDuplicateName<T, Prefix extends string, Others> = [ExtractName<T>] extends [never]
+  ? false
+  : [Others] extends [never]
+    ? false
+    : [ExtractName<T>] extends [ExtractName<FlattenDefinition<Others, Prefix, null, null, null>>]
+      ? true
+      : false;
+
+export type ValidateDefinitions<T extends readonly unknown[], Prefix extends string = '', M = Meta> = {
+  [K in keyof T]: ValidateDefinition<T[K], Prefix, Siblings<T, K>, M>;
 };
 
+type Siblings<T extends readonly unknown[], K> = {
+  [I in keyof T]: I extends K ? never : T[I];
+}[number];
+
+/** Definitions of a tree mounted under a path prefix */
+export type MountDefinitions<P extends string, T extends readonly RouteDefinition[]> = {
+  [K in keyof T]: T[K] extends string
+    ? JoinPath<P, T[K]>
+    : T[K] extends { path: infer Path extends string }
+      ? Omit<T[K], 'path'> & { path: JoinPath<P, Path> }
+      : T[K];
+};
+
+/** Resolves to an error shape when two trees share a route name or an equivalent pattern */
+export type ValidateMerge<A extends readonly RouteDefinition[], B extends readonly RouteDefinition[]> = [
+  Extract<ExtractNames<A>, ExtractNames<B>>,
+] extends [never]
+  ? [Extract<NormalizedPatterns<A>, NormalizedPatterns<B>>] extends [never]
+    ? unknown
+    : { __error: `Overlapping route pattern "${Extract<NormalizedPatterns<A>, NormalizedPatterns<B>> & string}"` }
+  : { __error: `Duplicate route name "${Extract<ExtractNames<A>, ExtractNames<B>> & string}"` };
+
+type NormalizedPatterns<T extends readonly RouteDefinition[]> = NormalizePattern<ExtractPath<FlattenDefinitions<T>> & string>;
+
+type NormalizePattern<S extends string> = S extends `/${infer R}` ? `/${NormalizeSegments<R>}` : S;
+
+type NormalizeSegments<S extends string> = S extends `${infer Seg}/${infer Rest}`
+  ? `${NormalizeSegment<Seg>}/${NormalizeSegments<Rest>}`
+  : NormalizeSegment<S>;
+
+type NormalizeSegment<Seg extends string> = Seg extends '*' | `:${string}*`
+  ? '*'
+  : Seg extends `:${string}?`
+    ? ':?'
+    : Seg extends `:${string}`
+      ? ':'
+      : Seg;
+
+/** Join a parent path and a relative child path */
+export type JoinPath<Parent extends string, Child extends string> = Parent extends ''
+  ? Child
+  : TrimLeadingSlash<Child> extends ''
+    ? Parent
+    : `${Parent extends `${infer P}/` ? P : Parent}/${TrimLeadingSlash<Child>}`;
+
+type TrimLeadingSlash<S extends string> = S extends `/${infer R}` ? TrimLeadingSlash<R> : S;
+
 // ============================================
 // Output Types
 // ============================================
 
+/** A RouteInfo for one of the routes of T, typed by its name and meta */
+export type RouteInfoOf<T extends readonly RouteDefinition[]> = FlattenDefinitions<T> extends infer D
+  ? D extends unknown
+    ? Omit<RouteInfo, 'name' | 'meta'> & { name?: ExtractName<D>; meta?: DefinedMeta<D> }
+    : never
+  : never;
+
 export interface RouteInfo {
   pattern: string;
   name?: string;
   meta?: Meta;
+  /** Child routes, only present in the nested view */
+  children?: RouteInfo[];
+  /** Other patterns the route is served under */
+  aliases?: string[];
+  /** Locale of the pattern, when the routes have the `i18n` option */
+  locale?: string;
+  /** The route's pattern in every locale */
+  alternates?: LocaleAlternate[];
+}
+
+/** A route's pattern in one locale, for `<link rel="alternate" hreflang>` tags */
+export interface LocaleAlternate {
+  /** A locale, or `x-default` for the default locale's pattern */
+  hreflang: string;
+  pattern: string;
+}
+
+export interface GetAllRoutesOptions {
+  /** Return routes nested as they were defined instead of a flat list */
+  nested?: boolean;
+  /** Dialect of the returned patterns (default: `colon`) */
+  format?: PatternFormat;
+}
+
+export type Segment =
+  | { type: 'static'; name: string }
+  | { type: 'param'; name: string; value?: string }
+  | { type: 'splat'; name: string; value?: string[] };
+
+/** A segment of a defined route pattern */
+export type PatternSegment =
+  | { type: 'static'; name: string }
+  | { type: 'param'; name: string; optional: boolean; constraint?: string }
+  | { type: 'splat'; name: string };
+
+/**
+ * A route pattern compiled for building paths: runs of static segments joined
+ * ahead of time (`/users`), and params as their index in the route's `paramNames`
+ */
+export type PathTemplate = readonly (string | number)[];
+
+/**
+ * Pattern dialects:
+ * - `colon`: `/users/:id`, `:id?`, `:rest*` (default)
+ * - `next`: Next.js `/users/[id]`, `[...rest]`
+ * - `openapi`: `/users/{id}`
+ * - `urlpattern`: `URLPattern` pathname syntax, `:id?`, `:rest+`
+ * - `regex`: anchored regex source with named groups, e.g. for CDN rewrite rules
+ */
+export type PatternFormat = 'colon' | 'next' | 'openapi' | 'urlpattern' | 'regex';
+
+export interface PatternOptions {
+  /** Include the configured basePath (default: true) */
+  basePath?: boolean;
+  /** Dialect to emit (default: `colon`) */
+  format?: PatternFormat;
+  /** Keep inline param constraints like `(\d+)` where the dialect supports them (default: true) */
+  constraints?: boolean;
+  /** Emit the localized pattern with its locale prefix (default: the tree's locale, if bound) */
+  locale?: string;
 }
 
-export type Segment = { type: 'static'; name: string } | { type: 'param'; name: string; value?: string };
+export interface ToStringOptions {
+  /** Build the URL in another locale than the tree's */
+  locale?: string;
+}
 
-export interface RouteNode {
+export interface RouteNode<
+  THash extends string = string,
+  TQuery = QueryParams,
+  TParams = Record<string, unknown>,
+  TMeta = Meta | null | undefined,
+> {
   readonly __segments: Segment[];
   readonly __query?: QueryParams;
-  getMeta(): Meta | null | undefined;
-  toString(): string;
-  toPattern(): string;
+  readonly __hash?: string;
+  readonly __options?: RoutishOptions;
+  /** The defined route at the node, used to compare it with localized URLs */
+  readonly __route?: RouteRecord | null;
+  /** The route's meta, typed as defined (after `metaSchema`) */
+  getMeta(): TMeta;
+  toString(options?: ToStringOptions): string;
+  /** Like toString(), but returns routish errors instead of throwing them */
+  safeToString(): SafeResult<string>;
+  /** Like toString(), but first runs parsers that validate asynchronously */
+  toStringAsync(): Promise<string>;
+  toPattern(options?: PatternOptions): string;
+  /** Absolute URL, resolved against `origin` or the `origin` option */
+  toURL(origin?: string): URL;
+  /** Copy of this node with a hash fragment, validated against the route's `hash` config */
+  withHash(hash: THash): RouteNode<THash, TQuery, TParams, TMeta>;
+  /** Copy of this node with query keys merged in; `undefined` or `null` removes a key */
+  withQuery(patch: QueryPatch<TQuery>): RouteNode<THash, TQuery, TParams, TMeta>;
+  /** Copy of this node with some param values replaced */
+  withParams(patch: Partial<TParams>): RouteNode<THash, TQuery, TParams, TMeta>;
+  /** The nearest defined route above this one, or null */
+  parent(): RouteNode | null;
+  /** Every defined route above this one, outermost first */
+  ancestors(): RouteNode[];
+}
+
+/** What isActive() and isAncestorOf() read from a node; route nodes and templates both have it */
+export type ComparableNode = Pick<RouteNode, '__segments' | '__query' | '__options' | '__route'>;
+
+export interface IsActiveOptions {
+  /** Require the same path instead of the node's path or any path below it */
+  exact?: boolean;
+  /** Skip comparing query values */
+  ignoreQuery?: boolean;
+  /** Only compare these query keys */
+  queryKeys?: string[];
 }
 
+export type QueryPatch<Q> = { [K in keyof Q]?: Q[K] | null };
+
+/** Result of the non-throwing `safe` APIs */
+export type SafeResult<T> = { success: true; data: T } | { success: false; error: RoutishError };
+
+/** Hash values accepted by a route's `hash` config */
+export type InferHash<H> = H extends readonly (infer V extends string)[]
+  ? V
+  : H extends Parser<infer I, any>
+    ? I extends string
+      ? I
+      : string
+    : string;
+
 /** Symbol used to store route metadata internally */
 export const ROUTE_METADATA = Symbol('routish.metadata');
 
 /** Internal metadata stored on the routes object */
 export interface RouteMetadata<T extends readonly RouteDefinition[] = readonly RouteDefinition[]> {
   definitions: T;
-  namedRoutes: Map<string, NamedRoute>;
+  options: RoutishOptions;
+  tree: TreeNode;
+  namedRoutes: Map<string, RouteRecord>;
+  /** Trees of the localized paths, by locale; locales without any use `tree` */
+  localeTrees: Map<string, TreeNode>;
+  /** Tree of the routes' aliases, matched after `tree` */
+  aliasTree: TreeNode;
+  redirects: RedirectRecord[];
+  /** Every defined route, in definition order */
+  records: RouteRecord[];
   allRoutes: RouteInfo[];
+  nestedRoutes: RouteInfo[];
 }
 
 export type RouteTree<T extends readonly RouteDefinition[]> = WrapNode<BuildTreeFromArray<T>> & {
   /** Access the root/index route (/) */
-  $index: RouteNode & ((query?: QueryParams) => RouteNode);
+  $index: IndexNode<BuildTreeFromArray<T>> & ((query?: QueryParams) => IndexNode<BuildTreeFromArray<T>>);
   [ROUTE_METADATA]: RouteMetadata<T>;
 };
 
@@ -125,25 +491,133 @@ export type RouteTree<T extends readonly RouteDefinition[]> = WrapNode<BuildTree
 // ============================================
 
 /** Extract all route names from definitions */
-export type ExtractNames<T extends readonly RouteDefinition[]> = ExtractName<T[number]>;
+export type ExtractNames<T extends readonly RouteDefinition[]> = ExtractName<FlattenDefinitions<T>>;
+
+/** Extract all route patterns from definitions */
+export type ExtractPatterns<T extends readonly RouteDefinition[]> = ExtractPath<FlattenDefinitions<T>>;
 
 /** Get the named route config by name */
-type GetNamedConfig<T extends readonly RouteDefinition[], N extends string> = Extract<T[number], { name: N }>;
+type GetNamedConfig<T extends readonly RouteDefinition[], N extends string> = Extract<FlattenDefinitions<T>, { name: N }>;
 
 /** Parameters for getRouteByName */
 export type GetRouteByNameParams<T extends readonly RouteDefinition[], N extends string> = SafeExtractParamNames<
   GetNamedConfig<T, N>
 > extends never
   ? undefined | void
-  : NamedRouteParams<GetNamedConfig<T, N>>;
+  : SafeExtractRequiredParamNames<GetNamedConfig<T, N>> extends never
+    ? NamedRouteParams<GetNamedConfig<T, N>> | undefined | void
+    : NamedRouteParams<GetNamedConfig<T, N>>;
+
+/** Node returned from getRouteByName */
+export type GetRouteByNameNode<T extends readonly RouteDefinition[], N extends string> = RouteNode<
+  GetRouteByNameHash<T, N>,
+  InferQueryInput<ExtractQuery<GetNamedConfig<T, N>>>,
+  NamedRouteParams<GetNamedConfig<T, N>>,
+  DefinedMeta<GetNamedConfig<T, N>>
+>;
+
+/** Hash accepted by nodes returned from getRouteByName */
+export type GetRouteByNameHash<T extends readonly RouteDefinition[], N extends string> = InferHash<
+  ExtractHash<GetNamedConfig<T, N>>
+>;
 
 /** Query for getRouteByName */
 export type GetRouteByNameQuery<T extends readonly RouteDefinition[], N extends string> = ExtractQuery<
   GetNamedConfig<T, N>
 > extends ParserMap
-  ? InferParserMap<ExtractQuery<GetNamedConfig<T, N>>>
+  ? InferQueryInput<ExtractQuery<GetNamedConfig<T, N>>>
   : undefined;
 
+/** Result of matching a URL, discriminated by `pattern` (and `name` for named routes) */
+export type RouteMatch<T extends readonly RouteDefinition[]> = Distribute<FlattenDefinitions<T>, 'match'>;
+
+/** Definition of the route with name or pattern `K` */
+type GetKeyedConfig<T extends readonly RouteDefinition[], K> = Extract<FlattenDefinitions<T>, K | { name: K } | { path: K }>;
+
+/** Param values for one path, or everything a path source yields */
+type ParamSource<P> = Iterable<P> | AsyncIterable<P> | Promise<Iterable<P>>;
+
+/** Param values by route name or pattern, for generatePaths() */
+export type PathSources<T extends readonly RouteDefinition[]> = {
+  [K in ExtractNames<T> | ExtractPatterns<T>]?: () => ParamSource<NamedRouteParams<GetKeyedConfig<T, K>>>;
+};
+
+/** A concrete URL path generated for a route */
+export interface GeneratedPath {
+  /** Built like toString(), including the basePath */
+  path: string;
+  pattern: string;
+  name?: string;
+  params: Record<string, unknown>;
+  meta?: Meta;
+}
+
+export interface GeneratePathsOptions {
+  /** Called for each route left out because it has required params and no source */
+  onSkip?: (route: { pattern: string; name?: string }) => void;
+}
+
+/** A redirect resolved by resolveRedirect(); narrow by `name` for the target's node type */
+export type RedirectResult<T extends readonly RouteDefinition[]> = (
+  | { [N in ExtractNames<T>]: { name: N; node: GetRouteByNameNode<T, N> } }[ExtractNames<T>]
+  | { name: undefined; node: RouteNode }
+) & {
+  pattern: ExtractPatterns<T>;
+  status: RedirectStatus;
+  /** The target URL, for the `Location` header */
+  location: string;
+};
+
+/** What a handler registered with createHandlerMap() gets for route `N` */
+export type HandlerContext<T extends readonly RouteDefinition[], N extends string> = Omit<Extract<RouteMatch<T>, { name: N }>, 'hash'>;
+
+/** Handlers by route name; `request` is whatever the server adapter passes along */
+export type RouteHandlers<T extends readonly RouteDefinition[], R> = {
+  [N in ExtractNames<T>]?: (ctx: HandlerContext<T, N>, request: R) => unknown;
+};
+
+export type HandlerOutcome =
+  | { type: 'handled'; value: unknown }
+  /** The URL matched a route whose parsers rejected it */
+  | { type: 'invalid'; error: unknown }
+  | { type: 'not-found' };
+
+export interface HandlerMap<R = unknown> {
+  /** Match a URL and run its route's handler */
+  handle(url: string | URL, request: R): Promise<HandlerOutcome>;
+}
+
+/** Apply a per-definition type to each member of a union of flattened definitions */
+type Distribute<D, Kind extends 'match' | 'tree'> = D extends unknown
+  ? Kind extends 'match'
+    ? MatchedRoute<D>
+    : ParseRoute<ExtractPath<D>, ExtractParams<D>, RouteLeaf<D>>
+  : never;
+
+type MatchedRoute<T> = {
+  name: [ExtractName<T>] extends [never] ? undefined : ExtractName<T>;
+  pattern: ExtractPath<T>;
+  params: MatchedParams<T>;
+  query: InferQuery<ExtractQuery<T>>;
+  hash: InferHash<ExtractHash<T>> | undefined;
+  meta: DefinedMeta<T>;
+  /** Locale of the URL, when the routes have the `i18n` option */
+  locale?: string;
+};
+
+type MatchedParams<T> = OptionalKeys<
+  {
+    [K in SafeExtractParamNames<T>]: ExtractParams<T> extends ParserMap
+      ? K extends keyof ExtractParams<T>
+        ? ParserOutput<ExtractParams<T>[K]>
+        : DefaultMatchedValue<T, K>
+      : DefaultMatchedValue<T, K>;
+  },
+  SafeExtractOptionalParamNames<T>
+>;
+
+type DefaultMatchedValue<T, K> = K extends SafeExtractSplatParamNames<T> ? string[] : Exclude<ParamConstraintInput<T, K>, number>;
+
 // ============================================
 // Internal Tree Building Types
 // ============================================
@@ -153,24 +627,78 @@ type ExtractQuery<T> = T extends { query: infer Q extends ParserMap } ? Q : null
 type ExtractParams<T> = T extends { params: infer P extends ParserMap } ? P : null;
 type ExtractMeta<T> = T extends { meta: infer M extends Meta } ? M : null;
 type ExtractName<T> = T extends { name: infer N extends string } ? N : never;
+type ExtractHash<T> = T extends { hash: infer H extends HashConfig } ? H : null;
+type DefinedMeta<T> = ExtractMeta<T> extends Meta ? ExtractMeta<T> : undefined;
+
+type BuildTreeFromArray<T extends readonly RouteDefinition[]> = UnionToIntersection<Distribute<FlattenDefinitions<T>, 'tree'>>;
+
+/** Flatten nested definitions into a union of definitions with absolute paths */
+export type FlattenDefinitions<T extends readonly RouteDefinition[]> = FlattenDefinition<T[number], '', null, null, null>;
+
+type FlattenDefinition<D, Prefix extends string, PParams, PQuery, PMeta> = D extends string
+  ? [PParams, PQuery, PMeta] extends [null, null, null]
+    ? JoinPath<Prefix, D>
+    : FlatConfig<JoinPath<Prefix, D>, PParams, PQuery, PMeta, {}>
+  : D extends { path: infer P extends string }
+    ?
+        | FlatConfig<
+            JoinPath<Prefix, P>,
+            MergeMaps<PParams, ExtractParams<D>>,
+            MergeMaps<PQuery, ExtractQuery<D>>,
+            MergeMaps<PMeta, ExtractMeta<D>>,
+            D
+          >
+        | (D extends { children: infer C extends readonly RouteDefinition[] }
+            ? FlattenDefinition<
+                C[number],
+                JoinPath<Prefix, P>,
+                MergeMaps<PParams, ExtractParams<D>>,
+                MergeMaps<PQuery, ExtractQuery<D>>,
+                MergeMaps<PMeta, ExtractMeta<D>>
+              >
+            : never)
+    : never;
 
-type BuildTreeFromArray<T extends readonly RouteDefinition[]> = UnionToIntersection<
-  { [K in keyof T]: ParseRoute<ExtractPath<T[K]>, ExtractQuery<T[K]>, ExtractParams<T[K]>, ExtractMeta<T[K]>> }[number]
->;
+type FlatConfig<Path, Params, Query, M, D> = { path: Path } & (Params extends ParserMap ? { params: Params } : {}) &
+  (Query extends ParserMap ? { query: Query } : {}) &
+  (M extends Meta ? { meta: M } : {}) &
+  Pick<D, Extract<keyof D, 'name' | 'hash'>>;
 
-type UnionToIntersection<U> = (U extends any ? (k: U) => void : never) extends (k: infer I) => void ? I : never;
+/** Shallow merge where keys of B win; null means absent */
+type MergeMaps<A, B> = A extends null ? B : B extends null ? A : Simplify<Omit<A, keyof B> & B>;
+
+/** Per-route data stored on the terminal node of the type tree */
+type RouteLeaf<T> = { $schema: ExtractQuery<T>; $meta: ExtractMeta<T>; $hash: ExtractHash<T>; $params: NamedRouteParams<T> };
 
-type ParseRoute<S, Query, Params, M> = S extends `/${infer R}` ? ParseSegments<R, Query, Params, M> : never;
+type UnionToIntersection<U> = (U extends any ? (k: U) => void : never) extends (k: infer I) => void ? I : never;
 
-type ParseSegments<S extends string, Query, Params, M> = S extends `${infer Seg}/${infer Rest}`
-  ? Seg extends `:${infer ParamName}`
-    ? { $call: ParseSegments<Rest, Query, Params, M>; $paramType: GetParamType<Params, ParamName> }
-    : { [K in Seg]: ParseSegments<Rest, Query, Params, M> }
-  : S extends `:${infer ParamName}`
-    ? { $call: { $schema: Query; $meta: M }; $paramType: GetParamType<Params, ParamName> }
-    : S extends ''
-      ? { $schema: Query; $meta: M }
-      : { [K in S]: { $schema: Query; $meta: M } };
+type ParseRoute<S, Params, Leaf> = S extends `/${infer R}` ? ParseSegments<R, Params, Leaf> : never;
+
+// Optional params (`:name?`) produce both a callable branch and a branch that skips the param
+type ParseSegments<S extends string, Params, Leaf> = S extends `${infer Seg}/${infer Rest}`
+  ? StripConstraint<Seg> extends `:${infer ParamName}?`
+    ? ParamStep<ParseSegments<Rest, Params, Leaf>, Params, ParamName, SegmentConstraint<Seg>> & ParseSegments<Rest, Params, Leaf>
+    : StripConstraint<Seg> extends `:${infer ParamName}`
+      ? ParamStep<ParseSegments<Rest, Params, Leaf>, Params, ParamName, SegmentConstraint<Seg>>
+      : { [K in Seg]: ParseSegments<Rest, Params, Leaf> }
+  : StripConstraint<S> extends `:${infer ParamName}?`
+    ? ParamStep<Leaf, Params, ParamName, SegmentConstraint<S>> & Leaf
+    : S extends '*' | `:${string}*`
+      ? ParamStep<Leaf, Params, SplatSegmentParamName<S>, unknown> & { $splat: true }
+      : StripConstraint<S> extends `:${infer ParamName}`
+        ? ParamStep<Leaf, Params, ParamName, SegmentConstraint<S>>
+        : S extends ''
+          ? Leaf
+          : { [K in S]: Leaf };
+
+// The name is wrapped so a param and a splat at the same position don't reduce the node to never
+type ParamStep<Next, Params, ParamName extends string, Constraint> = {
+  $call: Next;
+  $paramType: GetParamType<Params, ParamName>;
+  $paramName: { name: ParamName };
+  /** Values allowed without a parser */
+  $constraint: Constraint;
+};
 
 type GetParamType<Params, ParamName extends string> = Params extends ParserMap
   ? ParamName extends keyof Params
@@ -183,40 +711,116 @@ type GetParamType<Params, ParamName extends string> = Params extends ParserMap
 // ============================================
 
 type SafeExtractParamNames<T> = ExtractPath<T> extends string ? ExtractParamNames<ExtractPath<T>> : never;
+type SafeExtractOptionalParamNames<T> = ExtractPath<T> extends string ? ExtractOptionalParamNames<ExtractPath<T>> : never;
+type SafeExtractSplatParamNames<T> = ExtractPath<T> extends string ? ExtractSplatParamNames<ExtractPath<T>> : never;
+type SafeExtractRequiredParamNames<T> = Exclude<SafeExtractParamNames<T>, SafeExtractOptionalParamNames<T>>;
 
 type ParamValue = string | number;
 
-export type NamedRouteParams<T> = {
-  [K in SafeExtractParamNames<T>]: ExtractParams<T> extends ParserMap
-    ? K extends keyof ExtractParams<T>
-      ? ParserInput<ExtractParams<T>[K]>
-      : ParamValue
-    : ParamValue;
-};
+/** A splat accepts the rest of the path as pieces or as a slash-joined string */
+type SplatValue = string | readonly ParamValue[];
+
+type DefaultParamValue<T, K> = K extends SafeExtractSplatParamNames<T> ? SplatValue : ParamConstraintInput<T, K>;
+
+type ParamConstraintInput<T, K> = ExtractPath<T> extends infer P extends string ? SegmentConstraint<FindParamSegment<P, K>> : ParamValue;
+
+/** The segment of a pattern that declares param K */
+type FindParamSegment<S extends string, K> = S extends `${infer Seg}/${infer Rest}`
+  ? K extends SegmentParamName<StripConstraint<Seg>>
+    ? Seg
+    : FindParamSegment<Rest, K>
+  : S;
+
+/** Make the given keys of T optional, flattening the result for readable hovers */
+type OptionalKeys<T, K extends PropertyKey> = Simplify<Omit<T, K> & Partial<Pick<T, Extract<keyof T, K>>>>;
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type NamedRouteParams<T> = OptionalKeys<
+  {
+    [K in SafeExtractParamNames<T>]: ExtractParams<T> extends ParserMap
+      ? K extends keyof ExtractParams<T>
+        ? ParserInput<ExtractParams<T>[K]>
+        : DefaultParamValue<T, K>
+      : DefaultParamValue<T, K>;
+  },
+  SafeExtractOptionalParamNames<T>
+>;
 
-type InferParserMap<T> = T extends ParserMap ? { [K in keyof T]: ParserOutput<T[K]> } : never;
 
 // ============================================
 // Wrap Node Types
 // ============================================
 
 type InferQuery<S> = S extends ParserMap ? { [K in keyof S]: ParserOutput<S[K]> } : QueryParams;
-type InferParamInput<T> = T extends Parser<infer I, any> ? I : ParamValue;
+type InferQueryInput<S> = S extends ParserMap ? { [K in keyof S]: ParserInput<S[K]> } : QueryParams;
+type InferParamInput<T, Fallback = ParamValue> = T extends Parser<any, any> ? ParserInput<T> : Fallback;
 
-type Callable<C, Schema, ParamType> = {
-  (value: InferParamInput<ParamType>, query?: InferQuery<Schema>): WrapNode<C>;
+type Callable<C, Schema, ParamInput> = {
+  (value: ParamInput, query?: InferQueryInput<Schema>): WrapNode<C>;
 };
 
 type ExtractSchema<T> = T extends { $schema: infer S } ? S : null;
 type ExtractParamType<T> = T extends { $paramType: infer P } ? P : null;
-
-type WrapNode<T> = RouteNode & {
-  [K in keyof T as K extends '$call' | '$schema' | '$meta' | '$paramType' ? never : K]: WrapNode<T[K]>;
-} & (T extends { $call: infer C }
-  ? Callable<DeepMerge<C, Omit<T, '$call' | '$schema' | '$meta' | '$paramType'>>, ExtractSchema<C>, ExtractParamType<T>>
+type ExtractCallInput<T> = T extends { $splat: true }
+  ? InferParamInput<ExtractParamType<T>, SplatValue>
+  : InferParamInput<ExtractParamType<T>, T extends { $constraint: infer C } ? C : ParamValue>;
+
+/** Marker keys used while building the type tree; never exposed on nodes */
+type InternalKeys =
+  | '$call'
+  | '$schema'
+  | '$meta'
+  | '$hash'
+  | '$params'
+  | '$paramType'
+  | '$paramName'
+  | '$constraint'
+  | '$splat';
+
+type NodeHash<T> = T extends { $hash: infer H } ? InferHash<H> : string;
+type NodeParams<T> = T extends { $params: infer P } ? P : Record<string, unknown>;
+/** Meta of the route at a node; nodes that aren't routes have none */
+type NodeMeta<T> = T extends { $meta: infer M } ? (M extends Meta ? M : undefined) : Meta | null | undefined;
+type LeafNode<T> = RouteNode<NodeHash<T>, InferQueryInput<ExtractSchema<T>>, NodeParams<T>, NodeMeta<T>>;
+type IndexNode<T> = RouteNode<string, QueryParams, Record<string, unknown>, NodeMeta<T>>;
+
+type WrapNode<T> = LeafNode<T> & {
+  [K in keyof T as K extends InternalKeys ? never : K]: WrapNode<T[K]>;
+} & SkipParam<T, {}> & (T extends { $call: infer C } ? WithMethod<C, ParamEntry<T>> : {}) & (T extends { $call: infer C }
+  ? Callable<DeepMerge<C, Omit<T, InternalKeys>>, ExtractSchema<C>, ExtractCallInput<T>>
     // If node is also terminal (has $schema), allow query-only calls for the static route
-    & (T extends { $schema: unknown } ? { (query?: InferQuery<ExtractSchema<T>>): RouteNode } : {})
-  : (query?: InferQuery<ExtractSchema<T>>) => RouteNode);
+    & (T extends { $schema: unknown } ? { (query?: InferQueryInput<ExtractSchema<T>>): LeafNode<T> } : {})
+  : (query?: InferQueryInput<ExtractSchema<T>>) => LeafNode<T>);
+
+// ============================================
+// Param Template Types
+// ============================================
+
+/** A node reached by skipping params; `Filled` holds the values `$with()` needs for them */
+type TemplateNode<T, Filled> = Pick<
+  RouteNode<NodeHash<T>, QueryParams, Record<string, unknown>, NodeMeta<T>>,
+  '__segments' | '__options' | '__route' | 'getMeta' | 'toPattern'
+> & {
+  [K in keyof T as K extends InternalKeys ? never : K]: TemplateNode<T[K], Filled>;
+} & SkipParam<T, Filled> & WithMethod<T, Filled>;
+
+/** Children past the node's param, reachable without a value for it */
+type SkipParam<T, Filled> = T extends { $call: infer C }
+  ? { [K in keyof C as K extends InternalKeys | keyof T ? never : K]: TemplateNode<C[K], Filled & ParamEntry<T>> }
+  : {};
+
+type ParamEntry<T> = T extends { $paramName: { name: infer N extends string } } ? { [K in N]: ExtractCallInput<T> } : {};
+
+/** `$with()` overloads, one per route reachable by filling in params */
+type WithMethod<T, Filled> = [WithTargets<T, Filled>] extends [never]
+  ? {}
+  : { $with: UnionToIntersection<WithTargets<T, Filled>> };
+
+type WithTargets<T, Filled> =
+  | (T extends { $schema: unknown }
+      ? (params: Simplify<Filled>, query?: InferQueryInput<ExtractSchema<T>>) => WrapNode<T>
+      : never)
+  | (T extends { $call: infer C } ? WithTargets<C, Filled & ParamEntry<T>> : never);
 
 type DeepMerge<A, B> = {
   [K in keyof A | keyof B]: K extends keyof A & keyof B
@@ -234,18 +838,41 @@ type DeepMerge<A, B> = {
 
 export interface TreeNode {
   children: Record<string, TreeNode>;
+  /** Pattern of the path down to this node, e.g. `/users/:userId` */
+  pattern: string;
   paramName: string | null;
   paramParser: Parser<any, any> | null;
+  /** Inline constraint of the param, e.g. `\d+` for `:id(\d+)` */
+  paramConstraint: string | null;
   queryParser: Parser<any, any> | null;
   meta: Meta | null;
   isTerminal: boolean;
+  route: RouteRecord | null;
 }
 
-export interface NamedRoute {
+export interface RouteRecord {
   pattern: string;
+  name: string | undefined;
+  segments: PatternSegment[];
   paramNames: string[];
   paramParser: Parser<any, any> | null;
   queryParser: Parser<any, any> | null;
+  hash: HashConfig | null;
   meta: Meta | null;
+  /** Pattern by locale, for locales where the route has a localized path */
+  localizedPaths: Readonly<Record<string, string>>;
+  /** Compiled `pattern`, and the compiled localized paths by locale */
+  template: PathTemplate;
+  localizedTemplates: Readonly<Record<string, PathTemplate>>;
+  aliases: readonly string[];
   options: RoutishOptions;
+  /** Root of the tree the route belongs to */
+  root: TreeNode;
+}
+
+export interface RedirectRecord {
+  from: string;
+  segments: PatternSegment[];
+  target: RouteRecord;
+  status: RedirectStatus;
 }
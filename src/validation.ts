@@ -0,0 +1,261 @@
+import { RouteDefinitionError, type DefinitionIssue, type DefinitionIssueCode } from './errors.js';
+import { normalizePattern, parsePattern } from './pattern.js';
+import type { Parser, RedirectConfig, RouteConfig, RouteDefinition } from './types.js';
+
+/** The first definition seen at a param position of the tree */
+interface ParamPosition {
+  name: string;
+  parser: Parser | undefined;
+  constraint: string | undefined;
+  pattern: string;
+}
+
+/**
+ * Properties route nodes use for their methods and internals. A static segment with
+ * one of these names can't be reached through the proxy (`routes.family.parent` is
+ * the `parent()` method), so it is reported as an invalid segment.
+ */
+const RESERVED_SEGMENTS = new Set([
+  'getMeta',
+  'toString',
+  'safeToString',
+  'toStringAsync',
+  'toPattern',
+  'toURL',
+  'withHash',
+  'withQuery',
+  'withParams',
+  'parent',
+  'ancestors',
+  'then',
+  '$with',
+  '$index',
+  '__segments',
+  '__query',
+  '__hash',
+  '__options',
+  '__route',
+]);
+
+/**
+ * Check flattened definitions for duplicate names and patterns, params that
+ * share a tree position under different names or parsers, invalid segments,
+ * localized paths and aliases whose params differ from their route's, and redirects
+ * to unknown routes or without the params their target needs.
+ * Throws a `RouteDefinitionError` in strict mode, otherwise logs a warning per issue.
+ */
+export function validateDefinitions(
+  definitions: RouteDefinition[],
+  mode: 'strict' | 'warn',
+  redirects: readonly RedirectConfig[] = []
+): void {
+  const configs = definitions.map((def): RouteConfig => (typeof def === 'string' ? { path: def } : def));
+  const issues = [...collectIssues(configs), ...checkRedirects(redirects, configs)];
+  if (issues.length === 0) return;
+
+  if (mode === 'strict') {
+    throw new RouteDefinitionError(issues);
+  }
+  for (const issue of issues) {
+    console.warn(`[routish] ${issue.message}`);
+  }
+}
+
+function collectIssues(configs: RouteConfig[]): DefinitionIssue[] {
+  const issues: DefinitionIssue[] = [];
+  const names = new Map<string, string>();
+  const patterns = new Map<string, string>();
+  const positions = new Map<string, ParamPosition>();
+
+  for (const config of configs) {
+    const { path } = config;
+
+    if (config.name !== undefined) {
+      const existing = names.get(config.name);
+      if (existing !== undefined) {
+        issues.push({
+          code: 'duplicate-name',
+          message: `Duplicate route name "${config.name}": "${existing}" and "${path}"`,
+          patterns: [existing, path],
+        });
+      } else {
+        names.set(config.name, path);
+      }
+    }
+
+    const segmentIssues = checkSegments(path);
+    issues.push(...segmentIssues);
+    if (segmentIssues.length > 0) continue;
+    issues.push(...checkReservedSegments(path));
+    issues.push(...checkPathVariants(config));
+
+    const normalized = normalizePattern(path);
+    const existing = patterns.get(normalized);
+    if (existing !== undefined) {
+      issues.push({
+        code: 'duplicate-pattern',
+        message: `Duplicate route pattern: "${existing}" and "${path}" match the same URLs`,
+        patterns: [existing, path],
+      });
+      continue;
+    }
+    patterns.set(normalized, path);
+
+    issues.push(...checkParamPositions(config, positions));
+  }
+
+  return issues;
+}
+
+function checkSegments(path: string): DefinitionIssue[] {
+  const invalid = (message: string): DefinitionIssue => ({ code: 'invalid-segment', message, patterns: [path] });
+
+  if (!path.startsWith('/')) {
+    return [invalid(`Route pattern "${path}" must start with "/"`)];
+  }
+
+  let segments;
+  try {
+    segments = parsePattern(path);
+  } catch (error) {
+    if (error instanceof RouteDefinitionError) return error.issues;
+    throw error;
+  }
+
+  const issues: DefinitionIssue[] = [];
+  const seen = new Set<string>();
+  for (const seg of segments) {
+    if (seg.type === 'static') continue;
+    if (seg.type === 'param' && !seg.name) {
+      issues.push(invalid(`Param segment in "${path}" is missing a name`));
+    } else if (seen.has(seg.name)) {
+      issues.push(invalid(`Param "${seg.name}" appears more than once in "${path}"`));
+    }
+    if (seg.type === 'param' && seg.constraint !== undefined && !isValidRegex(seg.constraint)) {
+      issues.push(invalid(`Constraint "(${seg.constraint})" of param "${seg.name}" in "${path}" is not a valid regular expression`));
+    }
+    seen.add(seg.name);
+  }
+  return issues;
+}
+
+/** Static segments the proxy would resolve to a route node method instead */
+function checkReservedSegments(path: string): DefinitionIssue[] {
+  return parsePattern(path)
+    .filter((seg) => seg.type === 'static' && RESERVED_SEGMENTS.has(seg.name))
+    .map((seg) => ({
+      code: 'invalid-segment' as const,
+      message: `Segment "${seg.name}" in "${path}" is reserved: route nodes use it for their own method or property`,
+      patterns: [path],
+    }));
+}
+
+/** Localized paths and aliases must be valid and take the same params as the route's own path */
+function checkPathVariants(config: RouteConfig): DefinitionIssue[] {
+  const issues: DefinitionIssue[] = [];
+  const expected = paramNames(config.path).sort().join();
+  const check = (path: string, code: DefinitionIssueCode, label: string) => {
+    const segmentIssues = checkSegments(path);
+    issues.push(...segmentIssues);
+    if (segmentIssues.length === 0 && paramNames(path).sort().join() !== expected) {
+      issues.push({ code, message: `${label} must take the same params as "${config.path}"`, patterns: [config.path, path] });
+    }
+  };
+
+  for (const [locale, path] of Object.entries(config.localizedPaths ?? {})) {
+    check(path, 'conflicting-localized-path', `Localized path "${path}" (${locale})`);
+  }
+  for (const path of config.aliases ?? []) {
+    check(path, 'conflicting-alias', `Alias "${path}"`);
+  }
+  return issues;
+}
+
+/** Redirects must point at a defined route and have every param it requires */
+function checkRedirects(redirects: readonly RedirectConfig[], configs: RouteConfig[]): DefinitionIssue[] {
+  const issues: DefinitionIssue[] = [];
+
+  for (const redirect of redirects) {
+    const invalid = (message: string) => issues.push({ code: 'invalid-redirect', message, patterns: [redirect.from] });
+    const segmentIssues = checkSegments(redirect.from);
+    issues.push(...segmentIssues);
+    if (segmentIssues.length > 0) continue;
+
+    const target = configs.find((config) => config.name === redirect.to) ?? configs.find((config) => config.path === redirect.to);
+    if (!target) {
+      invalid(`Redirect from "${redirect.from}" targets "${redirect.to}", which is not a route name or pattern`);
+      continue;
+    }
+    const available = new Set(paramNames(redirect.from));
+    const missing = parsePattern(target.path).filter(
+      (seg) => seg.type !== 'static' && !(seg.type === 'param' && seg.optional) && !available.has(seg.name)
+    );
+    if (missing.length > 0) {
+      invalid(`Redirect from "${redirect.from}" is missing param "${missing[0]!.name}" of "${target.path}"`);
+    }
+  }
+  return issues;
+}
+
+function paramNames(path: string): string[] {
+  return parsePattern(path).flatMap((seg) => (seg.type === 'static' ? [] : [seg.name]));
+}
+
+function isValidRegex(source: string): boolean {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Params at the same depth under the same static prefix share one tree node,
+ * so their names, parsers and constraints must agree.
+ */
+function checkParamPositions(config: RouteConfig, positions: Map<string, ParamPosition>): DefinitionIssue[] {
+  const issues: DefinitionIssue[] = [];
+  let position = '';
+
+  for (const seg of parsePattern(config.path)) {
+    if (seg.type === 'static') {
+      position += '/' + seg.name;
+      continue;
+    }
+    position += seg.type === 'splat' ? '/*' : '/:';
+
+    const parser = config.params?.[seg.name] as Parser | undefined;
+    const constraint = seg.type === 'param' ? seg.constraint : undefined;
+    const existing = positions.get(position);
+    if (!existing) {
+      positions.set(position, { name: seg.name, parser, constraint, pattern: config.path });
+      continue;
+    }
+
+    const patterns = [existing.pattern, config.path];
+    if (existing.name !== seg.name) {
+      issues.push({
+        code: 'conflicting-param-name',
+        message: `Conflicting param names at the same position: ":${existing.name}" in "${existing.pattern}" and ":${seg.name}" in "${config.path}"`,
+        patterns,
+      });
+    } else if (parser && existing.parser && parser !== existing.parser) {
+      issues.push({
+        code: 'conflicting-parser',
+        message: `Conflicting parsers for ":${seg.name}" in "${existing.pattern}" and "${config.path}"`,
+        patterns,
+      });
+    } else if (constraint !== existing.constraint) {
+      issues.push({
+        code: 'conflicting-constraint',
+        message: `Conflicting constraints for ":${seg.name}" in "${existing.pattern}" and "${config.path}"`,
+        patterns,
+      });
+    } else if (parser && !existing.parser) {
+      existing.parser = parser;
+    }
+  }
+
+  return issues;
+}